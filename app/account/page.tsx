@@ -0,0 +1,21 @@
+import type { Metadata } from "next"
+import AccountClient from "@/components/account-client"
+import SiteHeader from "@/components/site-header"
+
+export const metadata: Metadata = {
+  title: "Your account | Outfit Scanner",
+  description: "Your account and search preferences",
+}
+
+// Visitors are sent to /signin by the middleware
+export default function AccountPage() {
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="container max-w-6xl mx-auto px-4 py-8">
+        <SiteHeader />
+
+        <AccountClient />
+      </div>
+    </main>
+  )
+}
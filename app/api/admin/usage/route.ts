@@ -0,0 +1,33 @@
+// app/api/admin/usage/route.ts
+// Current paid-search credit usage. Needs `Authorization: Bearer $ADMIN_TOKEN`;
+// without ADMIN_TOKEN set the endpoint is closed.
+import { createHash, timingSafeEqual } from "node:crypto";
+import { NextRequest } from "next/server";
+import { errorFromException, errorResponse, usageResponse } from "@/lib/api/respond";
+import { getCacheStore } from "@/lib/cache";
+import { getSearchBudget, getShoppingProvider } from "@/lib/shopping";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Compared as fixed-length digests so the time taken says nothing about the token
+const digest = (value: string) => createHash("sha256").update(value).digest();
+const sameToken = (given: string, expected: string) => timingSafeEqual(digest(given), digest(expected));
+
+// -------- Route --------
+export async function GET(req: NextRequest) {
+  try {
+    const token = process.env.ADMIN_TOKEN;
+    if (!token || !sameToken(req.headers.get("authorization") ?? "", `Bearer ${token}`)) {
+      return errorResponse("UNAUTHORIZED", "Admin token required");
+    }
+
+    return usageResponse({
+      provider: getShoppingProvider().name,
+      cache: getCacheStore()?.name ?? "off",
+      budget: await getSearchBudget()?.usage(),
+    });
+  } catch (err) {
+    return errorFromException(err, "admin/usage");
+  }
+}
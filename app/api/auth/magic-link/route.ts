@@ -0,0 +1,22 @@
+// app/api/auth/magic-link/route.ts
+// Mails a one-time sign-in link (MAIL_TRANSPORT; the dev outbox logs it)
+import { NextRequest } from "next/server";
+import { errorFromException, errorResponse, signInLinkResponse } from "@/lib/api/respond";
+import { SignInLinkRequestSchema } from "@/lib/api/schema";
+import { normalizeEmail, sendSignInLink } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// -------- Route --------
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = SignInLinkRequestSchema.safeParse(await req.json().catch(() => undefined));
+    if (!parsed.success) return errorResponse("BAD_REQUEST", "Body must be { email, next? }");
+
+    await sendSignInLink(parsed.data.email, req.nextUrl.origin, parsed.data.next);
+    return signInLinkResponse(normalizeEmail(parsed.data.email));
+  } catch (err) {
+    return errorFromException(err, "auth/magic-link");
+  }
+}
@@ -0,0 +1,39 @@
+// app/api/auth/magic-link/verify/route.ts
+// The form on /signin/verify posts here (the emailed link opens that page, so
+// fetching the link alone doesn't use it up). Answers with redirects rather
+// than JSON: to `next` when signed in, back to /signin if not.
+import { NextRequest, NextResponse } from "next/server";
+import { AppError } from "@/lib/api/errors";
+import { completeSignIn, redeemSignInLink, safeNext } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// -------- Route --------
+export async function POST(req: NextRequest) {
+  const base = process.env.APP_URL || req.url;
+  const form = await req.formData().catch(() => undefined);
+  const field = (name: string) => {
+    const value = form?.get(name);
+    return typeof value === "string" ? value : null;
+  };
+  const next = safeNext(field("next"));
+  try {
+    const user = redeemSignInLink(field("token") ?? "");
+    await completeSignIn(user);
+    return NextResponse.redirect(new URL(next, base), 303);
+  } catch (err) {
+    if (!(err instanceof AppError)) console.error("[auth/magic-link/verify]", err);
+    const back = new URL("/signin", base);
+    back.searchParams.set("error", err instanceof AppError && err.code === "UNAUTHORIZED" ? "link" : "failed");
+    if (next !== "/") back.searchParams.set("next", next);
+    return NextResponse.redirect(back, 303);
+  }
+}
+
+// Links mailed before they pointed at /signin/verify: show that page too
+export async function GET(req: NextRequest) {
+  const page = new URL("/signin/verify", process.env.APP_URL || req.url);
+  page.search = req.nextUrl.search;
+  return NextResponse.redirect(page);
+}
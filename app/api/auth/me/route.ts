@@ -0,0 +1,18 @@
+// app/api/auth/me/route.ts
+import { accountResponse, errorFromException } from "@/lib/api/respond";
+import { getUser } from "@/lib/auth";
+import { currentUserId } from "@/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// -------- Route --------
+// The signed-in user, or null for visitors
+export async function GET() {
+  try {
+    const id = await currentUserId();
+    return accountResponse((id && getUser(id)) || null);
+  } catch (err) {
+    return errorFromException(err, "auth/me");
+  }
+}
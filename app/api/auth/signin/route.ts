@@ -0,0 +1,22 @@
+// app/api/auth/signin/route.ts
+import { NextRequest } from "next/server";
+import { accountResponse, errorFromException, errorResponse } from "@/lib/api/respond";
+import { CredentialsRequestSchema } from "@/lib/api/schema";
+import { completeSignIn, signInWithPassword } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// -------- Route --------
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = CredentialsRequestSchema.safeParse(await req.json().catch(() => undefined));
+    if (!parsed.success) return errorResponse("BAD_REQUEST", "Body must be { email, password }");
+
+    const user = await signInWithPassword(parsed.data.email, parsed.data.password);
+    await completeSignIn(user);
+    return accountResponse(user);
+  } catch (err) {
+    return errorFromException(err, "auth/signin");
+  }
+}
@@ -0,0 +1,16 @@
+// app/api/auth/signout/route.ts
+import { accountResponse, errorFromException } from "@/lib/api/respond";
+import { endSession } from "@/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// -------- Route --------
+export async function POST() {
+  try {
+    await endSession();
+    return accountResponse(null);
+  } catch (err) {
+    return errorFromException(err, "auth/signout");
+  }
+}
@@ -0,0 +1,23 @@
+// app/api/auth/signup/route.ts
+import { NextRequest } from "next/server";
+import { errorFromException, errorResponse, signInLinkResponse } from "@/lib/api/respond";
+import { SignUpRequestSchema } from "@/lib/api/schema";
+import { normalizeEmail, signUp } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// -------- Route --------
+// Mails the link that confirms the email and creates the account; nobody is
+// signed in until it's opened. Answers the same for a registered email.
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = SignUpRequestSchema.safeParse(await req.json().catch(() => undefined));
+    if (!parsed.success) return errorResponse("BAD_REQUEST", "Body must be { email, password, next? }");
+
+    await signUp(parsed.data.email, parsed.data.password, req.nextUrl.origin, parsed.data.next);
+    return signInLinkResponse(normalizeEmail(parsed.data.email));
+  } catch (err) {
+    return errorFromException(err, "auth/signup");
+  }
+}
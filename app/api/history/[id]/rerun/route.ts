@@ -0,0 +1,21 @@
+// app/api/history/[id]/rerun/route.ts
+// Searches again for a past scan's garments with their stored attributes, so
+// no Vision calls are made, and saves the fresh results.
+import { NextRequest } from "next/server";
+import { errorFromException, errorResponse, historyScanResponse } from "@/lib/api/respond";
+import { rerunScan } from "@/lib/history";
+import { ownerId } from "@/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// -------- Route --------
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const result = await rerunScan(await ownerId(), (await params).id);
+    if (!result) return errorResponse("NOT_FOUND", "That scan isn't in your history");
+    return historyScanResponse(result);
+  } catch (err) {
+    return errorFromException(err, "history/rerun");
+  }
+}
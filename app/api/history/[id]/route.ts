@@ -0,0 +1,31 @@
+// app/api/history/[id]/route.ts
+import { NextRequest } from "next/server";
+import { deletedResponse, errorFromException, errorResponse, historyScanResponse } from "@/lib/api/respond";
+import { deleteScan, getScan } from "@/lib/history";
+import { ownerId } from "@/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+// -------- Route --------
+export async function GET(_req: NextRequest, { params }: Params) {
+  try {
+    const scan = getScan(await ownerId(), (await params).id);
+    if (!scan) return errorResponse("NOT_FOUND", "That scan isn't in your history");
+    return historyScanResponse({ scan });
+  } catch (err) {
+    return errorFromException(err, "history");
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  try {
+    const deleted = deleteScan(await ownerId(), (await params).id);
+    if (!deleted) return errorResponse("NOT_FOUND", "That scan isn't in your history");
+    return deletedResponse(deleted);
+  } catch (err) {
+    return errorFromException(err, "history");
+  }
+}
@@ -0,0 +1,16 @@
+// app/api/history/route.ts
+import { errorFromException, historyListResponse } from "@/lib/api/respond";
+import { listScans } from "@/lib/history";
+import { ownerId } from "@/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// -------- Route --------
+export async function GET() {
+  try {
+    return historyListResponse({ scans: listScans(await ownerId()) });
+  } catch (err) {
+    return errorFromException(err, "history");
+  }
+}
@@ -0,0 +1,32 @@
+// app/api/preferences/route.ts
+// The owner's search preferences; visitors have them too, and they move to
+// the account on sign-in.
+import { NextRequest } from "next/server";
+import { errorFromException, errorResponse, preferencesResponse } from "@/lib/api/respond";
+import { PreferencesSchema } from "@/lib/api/schema";
+import { getPreferences, savePreferences } from "@/lib/preferences";
+import { ownerId } from "@/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// -------- Route --------
+export async function GET() {
+  try {
+    return preferencesResponse(getPreferences(await ownerId()));
+  } catch (err) {
+    return errorFromException(err, "preferences");
+  }
+}
+
+// Replaces them; leave a field out to clear it
+export async function PUT(req: NextRequest) {
+  try {
+    const parsed = PreferencesSchema.safeParse(await req.json().catch(() => undefined));
+    if (!parsed.success) return errorResponse("BAD_REQUEST", "Body must be { gender?, age? }");
+
+    return preferencesResponse(savePreferences(await ownerId(), parsed.data));
+  } catch (err) {
+    return errorFromException(err, "preferences");
+  }
+}
@@ -0,0 +1,48 @@
+// app/api/search/route.ts
+// Re-runs only the shopping search for attributes the user corrected, so no
+// Vision calls are made. The owner's preferences apply as they do to scans.
+import { NextRequest } from "next/server";
+import { errorFromException, errorResponse, searchResponse } from "@/lib/api/respond";
+import { SearchRequestSchema } from "@/lib/api/schema";
+import { preferencesFor } from "@/lib/preferences";
+import { classifyMatches } from "@/lib/scan/classify";
+import { planQueries, withPreferences } from "@/lib/scan/query";
+import { rankMatches } from "@/lib/scan/rank";
+import { runQueryPlan } from "@/lib/scan/search";
+import { ownerId } from "@/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// -------- Route --------
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = SearchRequestSchema.safeParse(await req.json().catch(() => undefined));
+    if (!parsed.success) {
+      return errorResponse("BAD_REQUEST", "Body must be { attributes: { brand?, category?, colors?, ... } }");
+    }
+
+    const attributes = parsed.data.attributes;
+    const searched = withPreferences(attributes, preferencesFor(await ownerId()));
+    const plan = planQueries(searched);
+    const query = plan[0]?.query ?? "";
+    if (!plan.length) {
+      return searchResponse({
+        attributes,
+        query,
+        matches: [],
+        notes: ["Add a brand or a category to search."],
+      });
+    }
+
+    const matches = await rankMatches(classifyMatches((await runQueryPlan(plan)).matches, searched), searched);
+    return searchResponse({
+      attributes,
+      query,
+      matches,
+      notes: matches.length ? [] : ["No matches found for those details."],
+    });
+  } catch (err) {
+    return errorFromException(err, "search");
+  }
+}
@@ -0,0 +1,39 @@
+// app/api/wishlist/collections/[id]/route.ts
+import { NextRequest } from "next/server";
+import { errorFromException, errorResponse, wishlistResponse } from "@/lib/api/respond";
+import { CollectionRequestSchema } from "@/lib/api/schema";
+import { requireUserId } from "@/lib/session";
+import { deleteCollection, getWishlist, renameCollection } from "@/lib/wishlist";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+// -------- Route --------
+// Rename
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const owner = await requireUserId();
+    const parsed = CollectionRequestSchema.safeParse(await req.json().catch(() => undefined));
+    if (!parsed.success) return errorResponse("BAD_REQUEST", "Body must be { name }");
+
+    if (!renameCollection(owner, (await params).id, parsed.data.name)) {
+      return errorResponse("NOT_FOUND", "That collection doesn't exist");
+    }
+    return wishlistResponse(getWishlist(owner));
+  } catch (err) {
+    return errorFromException(err, "wishlist/collections");
+  }
+}
+
+// Its items stay in the wishlist, unsorted
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  try {
+    const owner = await requireUserId();
+    deleteCollection(owner, (await params).id);
+    return wishlistResponse(getWishlist(owner));
+  } catch (err) {
+    return errorFromException(err, "wishlist/collections");
+  }
+}
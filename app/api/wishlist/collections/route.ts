@@ -0,0 +1,23 @@
+// app/api/wishlist/collections/route.ts
+import { NextRequest } from "next/server";
+import { errorFromException, errorResponse, wishlistResponse } from "@/lib/api/respond";
+import { CollectionRequestSchema } from "@/lib/api/schema";
+import { requireUserId } from "@/lib/session";
+import { createCollection, getWishlist } from "@/lib/wishlist";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// -------- Route --------
+export async function POST(req: NextRequest) {
+  try {
+    const owner = await requireUserId();
+    const parsed = CollectionRequestSchema.safeParse(await req.json().catch(() => undefined));
+    if (!parsed.success) return errorResponse("BAD_REQUEST", "Body must be { name }");
+
+    createCollection(owner, parsed.data.name);
+    return wishlistResponse(getWishlist(owner));
+  } catch (err) {
+    return errorFromException(err, "wishlist/collections");
+  }
+}
@@ -0,0 +1,39 @@
+// app/api/wishlist/items/[id]/route.ts
+// `id` is the product key the item was saved under (URL-encoded)
+import { NextRequest } from "next/server";
+import { errorFromException, errorResponse, wishlistResponse } from "@/lib/api/respond";
+import { MoveItemRequestSchema } from "@/lib/api/schema";
+import { requireUserId } from "@/lib/session";
+import { getWishlist, moveWishlistItem, removeWishlistItem } from "@/lib/wishlist";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+// -------- Route --------
+// Move to another collection
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const owner = await requireUserId();
+    const parsed = MoveItemRequestSchema.safeParse(await req.json().catch(() => undefined));
+    if (!parsed.success) return errorResponse("BAD_REQUEST", "Body must be { collectionId: string | null }");
+
+    if (!moveWishlistItem(owner, (await params).id, parsed.data.collectionId ?? undefined)) {
+      return errorResponse("NOT_FOUND", "That item isn't in your wishlist");
+    }
+    return wishlistResponse(getWishlist(owner));
+  } catch (err) {
+    return errorFromException(err, "wishlist/items");
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  try {
+    const owner = await requireUserId();
+    removeWishlistItem(owner, (await params).id); // already gone is fine
+    return wishlistResponse(getWishlist(owner));
+  } catch (err) {
+    return errorFromException(err, "wishlist/items");
+  }
+}
@@ -0,0 +1,23 @@
+// app/api/wishlist/items/route.ts
+import { NextRequest } from "next/server";
+import { errorFromException, errorResponse, wishlistResponse } from "@/lib/api/respond";
+import { SaveItemRequestSchema } from "@/lib/api/schema";
+import { requireUserId } from "@/lib/session";
+import { getWishlist, saveWishlistItem } from "@/lib/wishlist";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// -------- Route --------
+export async function POST(req: NextRequest) {
+  try {
+    const owner = await requireUserId();
+    const parsed = SaveItemRequestSchema.safeParse(await req.json().catch(() => undefined));
+    if (!parsed.success) return errorResponse("BAD_REQUEST", "Body must be { item, collectionId? }");
+
+    saveWishlistItem(owner, parsed.data.item, parsed.data.collectionId);
+    return wishlistResponse(getWishlist(owner));
+  } catch (err) {
+    return errorFromException(err, "wishlist/items");
+  }
+}
@@ -0,0 +1,25 @@
+// app/api/wishlist/merge/route.ts
+// Folds the wishlist a guest kept in the browser into their account after
+// they sign in
+import { NextRequest } from "next/server";
+import { errorFromException, errorResponse, wishlistResponse } from "@/lib/api/respond";
+import { MergeWishlistRequestSchema } from "@/lib/api/schema";
+import { requireUserId } from "@/lib/session";
+import { getWishlist, mergeWishlist } from "@/lib/wishlist";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// -------- Route --------
+export async function POST(req: NextRequest) {
+  try {
+    const owner = await requireUserId();
+    const parsed = MergeWishlistRequestSchema.safeParse(await req.json().catch(() => undefined));
+    if (!parsed.success) return errorResponse("BAD_REQUEST", "Body must be { wishlist: { items, collections } }");
+
+    mergeWishlist(owner, parsed.data.wishlist);
+    return wishlistResponse(getWishlist(owner));
+  } catch (err) {
+    return errorFromException(err, "wishlist/merge");
+  }
+}
@@ -0,0 +1,18 @@
+// app/api/wishlist/route.ts
+// Signed-in users only; guests get UNAUTHORIZED and keep their wishlist in
+// the browser.
+import { errorFromException, wishlistResponse } from "@/lib/api/respond";
+import { requireUserId } from "@/lib/session";
+import { getWishlist } from "@/lib/wishlist";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// -------- Route --------
+export async function GET() {
+  try {
+    return wishlistResponse(getWishlist(await requireUserId()));
+  } catch (err) {
+    return errorFromException(err, "wishlist");
+  }
+}
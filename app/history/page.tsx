@@ -0,0 +1,20 @@
+import type { Metadata } from "next"
+import HistoryClient from "@/components/history-client"
+import SiteHeader from "@/components/site-header"
+
+export const metadata: Metadata = {
+  title: "Your scans | Outfit Scanner",
+  description: "Reopen, re-run or delete outfits you scanned before",
+}
+
+export default function HistoryPage() {
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="container max-w-6xl mx-auto px-4 py-8">
+        <SiteHeader />
+
+        <HistoryClient />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,27 @@
+import type { Metadata } from "next"
+import SignInClient from "@/components/signin-client"
+import SiteHeader from "@/components/site-header"
+import { safeNext } from "@/lib/auth"
+
+export const metadata: Metadata = {
+  title: "Sign in | Outfit Scanner",
+  description: "Sign in to keep your scans and wishlist on every device",
+}
+
+type SignInPageProps = {
+  searchParams: Promise<{ next?: string; error?: string }>
+}
+
+export default async function SignInPage({ searchParams }: SignInPageProps) {
+  const { next, error } = await searchParams
+
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="container max-w-6xl mx-auto px-4 py-8">
+        <SiteHeader />
+
+        <SignInClient next={safeNext(next)} error={error} />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,44 @@
+import type { Metadata } from "next"
+import { Mail } from "lucide-react"
+import SiteHeader from "@/components/site-header"
+import { Button } from "@/components/ui/button"
+import { safeNext } from "@/lib/auth"
+
+export const metadata: Metadata = {
+  title: "Sign in | Outfit Scanner",
+  description: "Finish signing in to Outfit Scanner",
+  robots: { index: false },
+}
+
+type VerifyPageProps = {
+  searchParams: Promise<{ token?: string; next?: string }>
+}
+
+// Where the emailed link lands. Opening it only shows a button: mail scanners
+// and link previews fetch links too, and the token is used up by the POST.
+export default async function VerifyPage({ searchParams }: VerifyPageProps) {
+  const { token, next } = await searchParams
+
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="container max-w-6xl mx-auto px-4 py-8">
+        <SiteHeader />
+
+        <section className="py-8 max-w-md mx-auto text-center space-y-6">
+          <Mail className="w-8 h-8 mx-auto text-gray-500" />
+          <div>
+            <h1 className="text-3xl font-bold">Finish signing in</h1>
+            <p className="mt-2 text-gray-600">Continue to sign in to Outfit Scanner with this link.</p>
+          </div>
+          <form method="post" action="/api/auth/magic-link/verify">
+            <input type="hidden" name="token" value={token ?? ""} />
+            <input type="hidden" name="next" value={safeNext(next)} />
+            <Button type="submit" className="w-full rounded-full">
+              Continue
+            </Button>
+          </form>
+        </section>
+      </div>
+    </main>
+  )
+}
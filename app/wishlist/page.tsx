@@ -0,0 +1,20 @@
+import type { Metadata } from "next"
+import SiteHeader from "@/components/site-header"
+import WishlistClient from "@/components/wishlist-client"
+
+export const metadata: Metadata = {
+  title: "Your wishlist | Outfit Scanner",
+  description: "Items you saved from your scans, organized into collections",
+}
+
+export default function WishlistPage() {
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="container max-w-6xl mx-auto px-4 py-8">
+        <SiteHeader />
+
+        <WishlistClient />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { reloadWishlist } from "@/hooks/use-wishlist";
+import { getAccount, getPreferences, savePreferences, signOut } from "@/lib/api/client";
+import type { Preferences, User } from "@/type/account";
+
+// Select values can't be empty; this one stands for "no preference"
+const ANY = "__any";
+
+const GENDER_OPTIONS = [
+  { id: "women", label: "Women" },
+  { id: "men", label: "Men" },
+  { id: "unisex", label: "Unisex" },
+];
+const AGE_OPTIONS = [
+  { id: "adult", label: "Adults" },
+  { id: "kids", label: "Kids" },
+];
+
+const fail = (title: string) => (err: unknown) =>
+  toast({ variant: "destructive", title, description: err instanceof Error ? err.message : "Something went wrong" });
+
+export default function AccountClient() {
+  const router = useRouter();
+  const [user, setUser] = useState<User | null | undefined>(undefined); // undefined while loading
+  const [prefs, setPrefs] = useState<Preferences>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    Promise.all([getAccount(), getPreferences()])
+      .then(([account, p]) => {
+        setUser(account.user);
+        setPrefs(p.preferences);
+      })
+      .catch((err) => {
+        setUser(null);
+        fail("Couldn't load your account")(err);
+      });
+  }, []);
+
+  const handleSave = async (next: Preferences) => {
+    const before = prefs;
+    setPrefs(next);
+    setSaving(true);
+    try {
+      setPrefs((await savePreferences(next)).preferences);
+      toast({ description: "Saved. New searches will use it." });
+    } catch (err) {
+      setPrefs(before);
+      fail("Couldn't save your preferences")(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      await reloadWishlist();
+      router.push("/");
+      router.refresh();
+    } catch (err) {
+      fail("Couldn't sign you out")(err);
+    }
+  };
+
+  const preferenceSelect = (
+    field: keyof Preferences,
+    label: string,
+    options: { id: string; label: string }[],
+    anyLabel: string
+  ) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select
+        value={prefs[field] ?? ANY}
+        disabled={saving}
+        onValueChange={(v) => handleSave({ ...prefs, [field]: v === ANY ? undefined : v })}
+      >
+        <SelectTrigger className="w-48 rounded-full" aria-label={label}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>{anyLabel}</SelectItem>
+          {options.map((o) => (
+            <SelectItem key={o.id} value={o.id}>
+              {o.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  if (user === undefined) return <div className="text-center py-12 text-gray-500">Loading…</div>;
+
+  return (
+    <section className="py-8 max-w-2xl space-y-10">
+      <div>
+        <h1 className="text-3xl font-bold">Your account</h1>
+        {user ? (
+          <p className="mt-2 text-gray-600">
+            Signed in as <span className="font-medium">{user.email}</span> · member since{" "}
+            {format(new Date(user.createdAt), "MMM d, yyyy")}
+          </p>
+        ) : (
+          <p className="mt-2 text-gray-600">You're not signed in.</p>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold">Shopping for</h2>
+          <p className="text-sm text-gray-500">
+            Used when a scan doesn't show who an outfit is for. What's in the image always wins.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-6">
+          {preferenceSelect("gender", "Department", GENDER_OPTIONS, "Anyone")}
+          {preferenceSelect("age", "Age", AGE_OPTIONS, "Any age")}
+        </div>
+      </div>
+
+      {user && (
+        <Button variant="outline" className="rounded-full" onClick={handleSignOut}>
+          <LogOut className="w-4 h-4 mr-2" /> Sign out
+        </Button>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useId, useState } from "react";
+import { Loader2, RotateCw, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { departmentOf, DEPARTMENTS, findCategory } from "@/lib/taxonomy";
+import type { Attributes } from "@/type/result";
+
+type AttributeEditorProps = {
+  attributes: Attributes;
+  onSearch: (attributes: Attributes) => Promise<void>;
+};
+
+const NO_CATEGORY = "__none__";
+const NO_SUBCATEGORY = "__any__";
+
+// Detected attributes as chips the user can correct before searching again
+export default function AttributeEditor({ attributes, onSearch }: AttributeEditorProps) {
+  const [draft, setDraft] = useState<Attributes>(attributes);
+  const [isSearching, setIsSearching] = useState(false);
+  const brandListId = useId();
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(attributes);
+  // A category outside the taxonomy (older results) stays selectable as-is
+  const unknownCategory = draft.category && !findCategory(draft.category) ? draft.category : undefined;
+  const subcategories = findCategory(draft.category)?.subcategories ?? [];
+
+  const removeFrom = (key: "colors" | "patterns", value: string) =>
+    setDraft((d) => ({
+      ...d,
+      [key]: (d[key] ?? []).filter((v) => v !== value),
+      ...(key === "colors" ? { swatches: d.swatches?.filter((s) => s.name !== value) } : {}),
+    }));
+
+  const swatch = (name: string) => draft.swatches?.find((s) => s.name === name)?.hex;
+
+  const handleSearch = async () => {
+    setIsSearching(true);
+    try {
+      await onSearch(draft);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {/* A brand typed by the user replaces the detected one outright */}
+      <Input
+        value={draft.brand ?? ""}
+        onChange={(e) =>
+          setDraft((d) => ({
+            ...d,
+            brand: e.target.value || undefined,
+            confidence: { ...d.confidence, brand: undefined },
+          }))
+        }
+        placeholder="Brand"
+        list={brandListId}
+        className="h-8 w-32 rounded-full"
+        aria-label="Brand"
+      />
+      <datalist id={brandListId}>
+        {(attributes.candidates?.brand ?? []).map((c) => (
+          <option key={c.value} value={c.value} />
+        ))}
+      </datalist>
+
+      <Select
+        value={draft.category ?? NO_CATEGORY}
+        onValueChange={(v) =>
+          setDraft((d) => {
+            const category = v === NO_CATEGORY ? undefined : v;
+            return {
+              ...d,
+              department: departmentOf(category)?.id,
+              category,
+              subcategory: undefined,
+              confidence: { ...d.confidence, category: undefined },
+            };
+          })
+        }
+      >
+        <SelectTrigger className="h-8 w-36 rounded-full" aria-label="Category">
+          <SelectValue placeholder="Category" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_CATEGORY}>Any category</SelectItem>
+          {unknownCategory && <SelectItem value={unknownCategory}>{unknownCategory}</SelectItem>}
+          {DEPARTMENTS.map((dept) => (
+            <SelectGroup key={dept.id}>
+              <SelectLabel>{dept.label}</SelectLabel>
+              {dept.categories.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.label}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {subcategories.length > 0 && (
+        <Select
+          value={draft.subcategory ?? NO_SUBCATEGORY}
+          onValueChange={(v) => setDraft((d) => ({ ...d, subcategory: v === NO_SUBCATEGORY ? undefined : v }))}
+        >
+          <SelectTrigger className="h-8 w-36 rounded-full" aria-label="Type">
+            <SelectValue placeholder="Type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_SUBCATEGORY}>Any type</SelectItem>
+            {subcategories.map((s) => (
+              <SelectItem key={s.id} value={s.id}>
+                {s.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {(["colors", "patterns"] as const).flatMap((key) =>
+        (draft[key] ?? []).map((value) => (
+          <Badge key={`${key}-${value}`} variant="secondary" className="gap-1 pr-1">
+            {key === "colors" && swatch(value) && (
+              <span
+                className="w-3 h-3 rounded-full border border-black/10"
+                style={{ backgroundColor: swatch(value) }}
+                title={swatch(value)}
+              />
+            )}
+            {value}
+            <button
+              type="button"
+              onClick={() => removeFrom(key, value)}
+              className="rounded-full p-0.5 hover:bg-black/10"
+            >
+              <X className="w-3 h-3" />
+              <span className="sr-only">Remove {value}</span>
+            </button>
+          </Badge>
+        ))
+      )}
+
+      <Button
+        size="sm"
+        variant={dirty ? "default" : "outline"}
+        onClick={handleSearch}
+        disabled={isSearching || (!draft.brand && !draft.category)}
+        className="rounded-full"
+      >
+        {isSearching ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <RotateCw className="w-4 h-4 mr-1" />}
+        Search again
+      </Button>
+    </div>
+  );
+}
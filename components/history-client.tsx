@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { Eye, RotateCw, Trash2 } from "lucide-react";
+import ResultsSection from "@/components/results-section";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { deleteHistoryScan, getHistoryScan, listHistory, rerunHistoryScan } from "@/lib/api/client";
+import { findCategory } from "@/lib/taxonomy";
+import type { ScanRecord, ScanSource, ScanSummary } from "@/type/history";
+import type { GarmentResult } from "@/type/result";
+
+const SOURCE_LABELS: Record<ScanSource, string> = {
+  image: "Screenshot",
+  frames: "Video frames",
+  tiktok: "TikTok link",
+};
+
+// "Hoodie, jeans, sneakers"
+const describe = (s: ScanSummary) => {
+  const names = s.labels.map((l) => findCategory(l)?.label ?? l);
+  return names.length ? names.join(", ") : "No garments found";
+};
+
+const toSummary = (scan: ScanRecord, prev: ScanSummary): ScanSummary => {
+  const garments = scan.frames?.length ? scan.frames.flatMap((f) => f.garments) : scan.garments;
+  return { ...prev, updatedAt: scan.updatedAt, matches: garments.reduce((n, g) => n + g.matches.length, 0) };
+};
+
+const fail = (title: string) => (err: unknown) =>
+  toast({ variant: "destructive", title, description: err instanceof Error ? err.message : "Something went wrong" });
+
+export default function HistoryClient() {
+  const [scans, setScans] = useState<ScanSummary[] | null>(null);
+  const [open, setOpen] = useState<ScanRecord | null>(null);
+  const [busy, setBusy] = useState<string | null>(null); // id being re-run or deleted
+
+  useEffect(() => {
+    listHistory()
+      .then((data) => setScans(data.scans))
+      .catch((err) => {
+        setScans([]);
+        fail("Couldn't load your scans")(err);
+      });
+  }, []);
+
+  const handleOpen = async (id: string) => {
+    try {
+      setOpen((await getHistoryScan(id)).scan);
+      setTimeout(() => document.getElementById("results")?.scrollIntoView({ behavior: "smooth" }), 100);
+    } catch (err) {
+      fail("Couldn't open that scan")(err);
+    }
+  };
+
+  const handleRerun = async (id: string) => {
+    setBusy(id);
+    try {
+      const { scan, warnings } = await rerunHistoryScan(id);
+      for (const warning of warnings) toast({ title: "Heads up", description: warning });
+      setScans((prev) => prev?.map((s) => (s.id === id ? toSummary(scan, s) : s)) ?? prev);
+      if (open?.id === id) setOpen(scan);
+      toast({ description: "Searched again with the saved details." });
+    } catch (err) {
+      fail("Re-run failed")(err);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setBusy(id);
+    try {
+      await deleteHistoryScan(id);
+      setScans((prev) => prev?.filter((s) => s.id !== id) ?? prev);
+      if (open?.id === id) setOpen(null);
+    } catch (err) {
+      fail("Couldn't delete that scan")(err);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Attribute corrections made while a past scan is open stay on this page
+  const handleGarmentChange = (garment: GarmentResult, frameIndex?: number) => {
+    const replace = (list: GarmentResult[]) => list.map((g) => (g.id === garment.id ? garment : g));
+    setOpen((prev) => {
+      if (!prev) return prev;
+      if (frameIndex == null) return { ...prev, garments: replace(prev.garments) };
+      return {
+        ...prev,
+        frames: prev.frames?.map((f, i) => (i === frameIndex ? { ...f, garments: replace(f.garments) } : f)),
+      };
+    });
+  };
+
+  return (
+    <>
+      <section className="py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold">Your scans</h1>
+          <p className="mt-2 text-gray-600">Reopen an outfit, search for it again, or remove it.</p>
+        </div>
+
+        {scans === null ? (
+          <div className="text-center py-12 text-gray-500">Loading…</div>
+        ) : !scans.length ? (
+          <div className="text-center py-12 text-gray-500">
+            No scans yet.{" "}
+            <Link href="/" className="underline hover:text-gray-800">
+              Scan an outfit
+            </Link>
+          </div>
+        ) : (
+          <ul className="divide-y rounded-xl border">
+            {scans.map((s) => (
+              <li
+                key={s.id}
+                className={`flex items-center gap-4 p-4 ${open?.id === s.id ? "bg-gray-50" : ""}`}
+              >
+                <img
+                  src={s.thumbnail || "/placeholder.jpg"}
+                  alt=""
+                  className="w-16 h-20 rounded-lg object-cover flex-none"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{describe(s)}</p>
+                  <p className="text-sm text-gray-500">
+                    {SOURCE_LABELS[s.source]} · {format(new Date(s.createdAt), "MMM d, yyyy h:mm a")} · {s.matches}{" "}
+                    {s.matches === 1 ? "match" : "matches"}
+                  </p>
+                </div>
+                <div className="flex gap-2 flex-none">
+                  <Button variant="outline" size="sm" className="rounded-full" onClick={() => handleOpen(s.id)}>
+                    <Eye className="w-4 h-4 mr-1" /> Open
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="rounded-full"
+                    disabled={busy === s.id}
+                    onClick={() => handleRerun(s.id)}
+                  >
+                    <RotateCw className={`w-4 h-4 mr-1 ${busy === s.id ? "animate-spin" : ""}`} /> Re-run
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="rounded-full"
+                    disabled={busy === s.id}
+                    onClick={() => handleDelete(s.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    <span className="sr-only">Delete</span>
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {open && (
+        <ResultsSection
+          key={open.id}
+          garments={open.garments}
+          frames={open.frames}
+          onGarmentChange={handleGarmentChange}
+        />
+      )}
+    </>
+  );
+}
@@ -4,24 +4,38 @@ import { useState } from "react";
 import Hero from "@/components/hero";
 import UploadSection from "@/components/upload-section";
 import ResultsSection from "@/components/results-section";
-import type { MatchItem } from "@/type/result";
+import type { FrameResult, GarmentResult } from "@/type/result";
 
 export default function HomeClient() {
   const [stage, setStage] = useState<"hero" | "upload" | "results">("hero");
-  const [results, setResults] = useState<MatchItem[]>([]);
+  const [results, setResults] = useState<GarmentResult[]>([]);
+  const [frames, setFrames] = useState<FrameResult[]>([]);
 
   const handleStart = () => setStage("upload");
 
-  const handleUploadComplete = (matches: MatchItem[]) => {
-    setResults(matches ?? []);
+  const handleUploadComplete = (garments: GarmentResult[], frames?: FrameResult[]) => {
+    setResults(garments ?? []);
+    setFrames(frames ?? []);
     setStage("results");
   };
 
+  // A garment was re-searched with corrected attributes
+  const handleGarmentChange = (garment: GarmentResult, frameIndex?: number) => {
+    const replace = (list: GarmentResult[]) => list.map((g) => (g.id === garment.id ? garment : g));
+    if (frameIndex == null) {
+      setResults(replace);
+    } else {
+      setFrames((prev) => prev.map((f, i) => (i === frameIndex ? { ...f, garments: replace(f.garments) } : f)));
+    }
+  };
+
   return (
     <>
       {stage === "hero" && <Hero onStart={handleStart} />}
       {stage === "upload" && <UploadSection onComplete={handleUploadComplete} />}
-      {stage === "results" && <ResultsSection results={results} />}
+      {stage === "results" && (
+        <ResultsSection garments={results} frames={frames} onGarmentChange={handleGarmentChange} />
+      )}
     </>
   );
 }
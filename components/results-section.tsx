@@ -1,22 +1,78 @@
 "use client";
 
 import { useState } from "react";
-import type { MatchItem } from "@/type/result";
+import type { Attributes, FrameResult, GarmentResult, MatchItem } from "@/type/result";
 import { ExternalLink, Heart } from "lucide-react";
+import AttributeEditor from "@/components/attribute-editor";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "@/hooks/use-toast";
+import { useWishlist } from "@/hooks/use-wishlist";
+import { postSearch } from "@/lib/api/client";
+import { findCategory, findSubcategory, TABS } from "@/lib/taxonomy";
 
-type ResultsSectionProps = { results: MatchItem[] };
+type ResultsSectionProps = {
+  garments: GarmentResult[];
+  frames?: FrameResult[]; // video scans: one result set per picked frame
+  onGarmentChange?: (garment: GarmentResult, frameIndex?: number) => void;
+};
 
-export default function ResultsSection({ results }: ResultsSectionProps) {
-  const [favorites, setFavorites] = useState<(string | number)[]>([]);
-  const hasResults = Array.isArray(results) && results.length > 0;
+// "the cardigan", "the jeans", "the shoes"
+const garmentTitle = (g: GarmentResult) => {
+  const { category, subcategory } = g.attributes;
+  const name = findSubcategory(category, subcategory)?.label ?? findCategory(category)?.label ?? category ?? g.label;
+  return `The ${name.toLowerCase()}`;
+};
 
-  const toggleFavorite = (id?: string | number) => {
-    if (id == null) return;
-    setFavorites((prev) =>
-      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
-    );
+// Two garments' searches can return the same product; list it once per tab
+const uniqueItems = (items: MatchItem[]) => {
+  const seen = new Set<string>();
+  return items.filter((m) => {
+    const key = String(m.id ?? m.url ?? m.title);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const formatTime = (seconds: number) => {
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+};
+
+export default function ResultsSection({ garments, frames = [], onGarmentChange }: ResultsSectionProps) {
+  const wishlist = useWishlist();
+  const [activeFrame, setActiveFrame] = useState(0);
+  const shown = frames.length ? frames[activeFrame]?.garments ?? [] : garments;
+  // Garments without matches stay listed so their attributes can be corrected
+  const groups = Array.isArray(shown) ? shown : [];
+  const hasResults = groups.some((g) => g.matches?.length || g.looks?.length);
+
+  // Tab filtering uses the server's per-product classification, not the garment
+  // it was found for: a jeans search can turn up a denim jacket.
+  // counted once each, like the tabs
+  const allMatches = uniqueItems(groups.flatMap((g) => g.matches ?? []));
+  const tabs = TABS.map((tab) => ({
+    ...tab,
+    items: allMatches.filter((m) => m.garment && tab.departments.includes(m.garment.department)),
+  }));
+
+  // Search again with corrected attributes (no new Vision scan)
+  const handleSearch = async (g: GarmentResult, attributes: Attributes) => {
+    try {
+      const data = await postSearch(attributes);
+      for (const note of data.notes) toast({ description: note });
+      onGarmentChange?.(
+        { ...g, attributes: data.attributes, query: data.query, matches: data.matches },
+        frames.length ? activeFrame : undefined
+      );
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Search failed",
+        description: err instanceof Error ? err.message : "Something went wrong",
+      });
+    }
   };
 
   const formatPrice = (price?: string | number) => {
@@ -25,6 +81,91 @@ export default function ResultsSection({ results }: ResultsSectionProps) {
     return undefined;
   };
 
+  // Pages showing the scanned look and look-alike images: just a thumbnail and where it is
+  const renderLook = (item: MatchItem) => (
+    <a
+      key={item.id ?? item.url}
+      href={item.url}
+      target="_blank"
+      rel="noreferrer"
+      className="flex-none w-28 rounded-lg overflow-hidden border bg-white hover:shadow-md transition-shadow"
+      title={item.title ?? item.store}
+    >
+      <img src={item.image || "/placeholder.jpg"} alt={item.title ?? item.store ?? "Look"} className="w-28 h-36 object-cover" />
+      <span className="block text-xs text-gray-600 px-2 py-1 truncate">
+        {item.source === "similar-image" ? "Similar" : item.store}
+      </span>
+    </a>
+  );
+
+  const renderItem = (item: MatchItem, idx: number) => {
+    const id = item.id ?? idx;
+    const title = item.title ?? (item as any).name ?? "Item";
+    const price = formatPrice(item.price);
+    const saved = wishlist.isSaved(item);
+
+    return (
+      <div
+        key={id}
+        className="group relative bg-white rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow"
+      >
+        <div className="absolute top-3 right-3 z-10">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="rounded-full bg-white/80 backdrop-blur-sm hover:bg-white"
+            onClick={() => wishlist.toggle(item)}
+            aria-pressed={saved}
+          >
+            <Heart
+              className={`w-5 h-5 ${
+                saved
+                  ? "fill-red-500 text-red-500"
+                  : "text-gray-600"
+              }`}
+            />
+            <span className="sr-only">{saved ? "Remove from wishlist" : "Save to wishlist"}</span>
+          </Button>
+        </div>
+
+        <div className="aspect-[3/4] relative">
+          <img
+            src={item.image || "/placeholder.jpg"}
+            alt={title}
+            className="object-cover w-full h-full"
+          />
+          {typeof item.match === "number" && (
+            <div className="absolute top-3 left-3 bg-primary text-primary-foreground text-xs font-medium px-2 py-1 rounded-full">
+              {item.match}% similar
+            </div>
+          )}
+        </div>
+
+        <div className="p-4">
+          <div className="flex justify-between items-start">
+            <div>
+              <h3 className="font-medium text-lg">{title}</h3>
+              {item.store && (
+                <p className="text-sm text-gray-500">{item.store}</p>
+              )}
+            </div>
+            {price && <p className="font-semibold">{price}</p>}
+          </div>
+
+          {item.url && (
+            <div className="mt-4">
+              <a href={item.url} target="_blank" rel="noreferrer">
+                <Button className="w-full rounded-full bg-primary hover:bg-primary/80 text-primary-foreground">
+                  Shop Now <ExternalLink className="w-4 h-4 ml-2" />
+                </Button>
+              </a>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <section id="results" className="py-16">
       <div className="text-center mb-10">
@@ -36,99 +177,80 @@ export default function ResultsSection({ results }: ResultsSectionProps) {
         </p>
       </div>
 
-      {!hasResults ? (
+      {frames.length > 1 && (
+        <div className="flex justify-center gap-4 mb-8">
+          {frames.map((f, i) => (
+            <button
+              key={f.index}
+              onClick={() => setActiveFrame(i)}
+              className={`rounded-lg overflow-hidden border-2 transition-colors ${
+                i === activeFrame ? "border-primary" : "border-transparent hover:border-gray-300"
+              }`}
+            >
+              {f.image && <img src={f.image} alt={`Frame at ${formatTime(f.time)}`} className="w-20 h-28 object-cover" />}
+              <span className="block text-xs text-gray-600 py-1">{formatTime(f.time)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!groups.length ? (
         <div className="text-center py-12 text-gray-500">No results to show.</div>
       ) : (
         <Tabs defaultValue="all" className="w-full">
           <div className="flex justify-center mb-8">
             <TabsList className="rounded-full">
-              <TabsTrigger value="all" className="rounded-full">All Items</TabsTrigger>
-              <TabsTrigger value="tops" className="rounded-full">Tops</TabsTrigger>
-              <TabsTrigger value="bottoms" className="rounded-full">Bottoms</TabsTrigger>
-              <TabsTrigger value="accessories" className="rounded-full">Accessories</TabsTrigger>
+              <TabsTrigger value="all" className="rounded-full">All Items ({allMatches.length})</TabsTrigger>
+              {tabs.map((tab) => (
+                <TabsTrigger key={tab.id} value={tab.id} className="rounded-full">
+                  {tab.label} ({tab.items.length})
+                </TabsTrigger>
+              ))}
             </TabsList>
           </div>
 
-          <TabsContent value="all" className="mt-0">
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-              {results.map((item, idx) => {
-                const id = item.id ?? idx;
-                const title = item.title ?? (item as any).name ?? "Item";
-                const price = formatPrice(item.price);
-
-                return (
-                  <div
-                    key={id}
-                    className="group relative bg-white rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow"
-                  >
-                    <div className="absolute top-3 right-3 z-10">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="rounded-full bg-white/80 backdrop-blur-sm hover:bg-white"
-                        onClick={() => toggleFavorite(id)}
-                      >
-                        <Heart
-                          className={`w-5 h-5 ${
-                            favorites.includes(id)
-                              ? "fill-red-500 text-red-500"
-                              : "text-gray-600"
-                          }`}
-                        />
-                        <span className="sr-only">Add to favorites</span>
-                      </Button>
-                    </div>
-
-                    <div className="aspect-[3/4] relative">
-                      <img
-                        src={item.image || "/placeholder.jpg"}
-                        alt={title}
-                        className="object-cover w-full h-full"
-                      />
-                      {typeof item.match === "number" && (
-                        <div className="absolute top-3 left-3 bg-primary text-primary-foreground text-xs font-medium px-2 py-1 rounded-full">
-                          {item.match}% similar
-                        </div>
-                      )}
-                    </div>
-
-                    <div className="p-4">
-                      <div className="flex justify-between items-start">
-                        <div>
-                          <h3 className="font-medium text-lg">{title}</h3>
-                          {item.store && (
-                            <p className="text-sm text-gray-500">{item.store}</p>
-                          )}
-                        </div>
-                        {price && <p className="font-semibold">{price}</p>}
-                      </div>
-
-                      {item.url && (
-                        <div className="mt-4">
-                          <a href={item.url} target="_blank" rel="noreferrer">
-                            <Button className="w-full rounded-full bg-primary hover:bg-primary/80 text-primary-foreground">
-                              Shop Now <ExternalLink className="w-4 h-4 ml-2" />
-                            </Button>
-                          </a>
-                        </div>
-                      )}
-                    </div>
+          <TabsContent value="all" className="mt-0 space-y-12">
+            {groups.map((g) => (
+              <div key={g.id}>
+                <div className="mb-4 space-y-2">
+                  {groups.length > 1 && <h3 className="text-xl font-semibold">{garmentTitle(g)}</h3>}
+                  {g.query && <p className="text-sm text-gray-500">Searched for “{g.query}”</p>}
+                  <AttributeEditor
+                    key={`${activeFrame}-${g.id}`}
+                    attributes={g.attributes}
+                    onSearch={(attributes) => handleSearch(g, attributes)}
+                  />
+                </div>
+                {!!g.looks?.length && (
+                  <div className="mb-6">
+                    <p className="text-sm font-medium text-gray-700 mb-2">Exact look found on</p>
+                    <div className="flex gap-3 overflow-x-auto pb-2">{g.looks.map(renderLook)}</div>
                   </div>
-                );
-              })}
-            </div>
+                )}
+                {g.matches.length ? (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {g.matches.map(renderItem)}
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-gray-500">No matches — adjust the details above and search again.</div>
+                )}
+              </div>
+            ))}
           </TabsContent>
 
-          {/* Placeholder tabs for future filtering */}
-          <TabsContent value="tops" className="mt-0">
-            <div className="text-center py-12 text-gray-500">Filter by tops to see similar items</div>
-          </TabsContent>
-          <TabsContent value="bottoms" className="mt-0">
-            <div className="text-center py-12 text-gray-500">Filter by bottoms to see similar items</div>
-          </TabsContent>
-          <TabsContent value="accessories" className="mt-0">
-            <div className="text-center py-12 text-gray-500">Filter by accessories to see similar items</div>
-          </TabsContent>
+          {tabs.map((tab) => (
+            <TabsContent key={tab.id} value={tab.id} className="mt-0">
+              {tab.items.length ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {tab.items.map(renderItem)}
+                </div>
+              ) : (
+                <div className="text-center py-12 text-gray-500">
+                  No {tab.label.toLowerCase()} found in this outfit.
+                </div>
+              )}
+            </TabsContent>
+          ))}
         </Tabs>
       )}
     </section>
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "@/hooks/use-toast";
+import { reloadWishlist } from "@/hooks/use-wishlist";
+import { requestSignInLink, signIn, signUp } from "@/lib/api/client";
+
+type SignInClientProps = {
+  next: string;
+  error?: string; // set by the email link route when a link didn't work
+};
+
+const LINK_ERRORS: Record<string, string> = {
+  link: "That sign-in link has expired or was already used. Ask for a new one.",
+  failed: "Something went wrong signing you in. Please try again.",
+};
+
+const fail = (title: string) => (err: unknown) =>
+  toast({ variant: "destructive", title, description: err instanceof Error ? err.message : "Something went wrong" });
+
+export default function SignInClient({ next, error }: SignInClientProps) {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [creating, setCreating] = useState(false); // create an account rather than sign in
+  const [busy, setBusy] = useState(false);
+  const [linkSent, setLinkSent] = useState<{ to: string; signingUp: boolean } | null>(null);
+
+  const handlePassword = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      if (creating) {
+        // the account exists once the emailed link is opened
+        setLinkSent({ to: (await signUp({ email, password, next })).email, signingUp: true });
+        setBusy(false);
+        return;
+      }
+      await signIn({ email, password });
+      await reloadWishlist(); // folds in anything saved while signed out
+      router.push(next);
+      router.refresh();
+    } catch (err) {
+      fail(creating ? "Couldn't create your account" : "Couldn't sign you in")(err);
+      setBusy(false);
+    }
+  };
+
+  const handleLink = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      setLinkSent({ to: (await requestSignInLink({ email, next })).email, signingUp: false });
+    } catch (err) {
+      fail("Couldn't send the link")(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const emailField = (
+    <div className="space-y-2">
+      <Label htmlFor="email">Email</Label>
+      <Input
+        id="email"
+        type="email"
+        autoComplete="email"
+        required
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+      />
+    </div>
+  );
+
+  const linkSentNotice = linkSent && (
+    <div className="text-center py-6 space-y-2">
+      <Mail className="w-8 h-8 mx-auto text-gray-500" />
+      <p className="font-medium">Check your inbox</p>
+      <p className="text-sm text-gray-600">
+        We sent a link to {linkSent.to}. Open it to{" "}
+        {linkSent.signingUp ? "confirm your email and finish signing up" : "sign in"}. It works once and expires shortly.
+      </p>
+      <button type="button" className="text-sm underline hover:text-gray-800" onClick={() => setLinkSent(null)}>
+        Use a different email
+      </button>
+    </div>
+  );
+
+  return (
+    <section className="py-8 max-w-md mx-auto">
+      <div className="mb-8 text-center">
+        <h1 className="text-3xl font-bold">{creating ? "Create an account" : "Sign in"}</h1>
+        <p className="mt-2 text-gray-600">Keep your scans, wishlist and preferences on every device.</p>
+      </div>
+
+      {error && LINK_ERRORS[error] && (
+        <p className="mb-6 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">{LINK_ERRORS[error]}</p>
+      )}
+
+      <Tabs defaultValue="password" className="w-full">
+        <TabsList className="grid w-full grid-cols-2 rounded-full mb-6">
+          <TabsTrigger value="password" className="rounded-full">
+            Password
+          </TabsTrigger>
+          <TabsTrigger value="link" className="rounded-full">
+            Email link
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="password">
+          {linkSent?.signingUp ? (
+            linkSentNotice
+          ) : (
+            <form onSubmit={handlePassword} className="space-y-4">
+              {emailField}
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete={creating ? "new-password" : "current-password"}
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+              <Button type="submit" className="w-full rounded-full" disabled={busy}>
+                {creating ? "Create account" : "Sign in"}
+              </Button>
+              <p className="text-center text-sm text-gray-600">
+                {creating ? "Already have an account?" : "New here?"}{" "}
+                <button type="button" className="underline hover:text-gray-800" onClick={() => setCreating(!creating)}>
+                  {creating ? "Sign in" : "Create an account"}
+                </button>
+              </p>
+            </form>
+          )}
+        </TabsContent>
+
+        <TabsContent value="link">
+          {linkSent && !linkSent.signingUp ? (
+            linkSentNotice
+          ) : (
+            <form onSubmit={handleLink} className="space-y-4">
+              {emailField}
+              <Button type="submit" className="w-full rounded-full" disabled={busy}>
+                Email me a sign-in link
+              </Button>
+              <p className="text-center text-sm text-gray-600">No password needed. New emails get an account.</p>
+            </form>
+          )}
+        </TabsContent>
+      </Tabs>
+    </section>
+  );
+}
@@ -0,0 +1,40 @@
+import Link from "next/link"
+
+export default function SiteHeader() {
+  return (
+    <header className="flex justify-between items-center mb-12">
+      <Link href="/" className="flex items-center gap-2">
+        <div className="w-10 h-10 rounded-full bg-black flex items-center justify-center">
+          <span className="text-white font-semibold text-lg">OS</span>
+        </div>
+        <span className="text-xl font-semibold">Outfit Scanner</span>
+      </Link>
+      <nav>
+        <ul className="flex gap-6">
+          <li>
+            <Link href="/how-it-works" className="text-sm font-medium hover:text-gray-600">
+              How it works
+            </Link>
+          </li>
+          <li>
+            <Link href="/history" className="text-sm font-medium hover:text-gray-600">
+              History
+            </Link>
+          </li>
+          <li>
+            <Link href="/wishlist" className="text-sm font-medium hover:text-gray-600">
+              Wishlist
+            </Link>
+          </li>
+          <li>
+            <Link href="/account" className="text-sm font-medium hover:text-gray-600">
+              Account
+            </Link>
+          </li>
+          <li><a href="#" className="text-sm font-medium hover:text-gray-600">About</a></li>
+          <li><a href="#" className="text-sm font-medium hover:text-gray-600">Contact</a></li>
+        </ul>
+      </nav>
+    </header>
+  )
+}
@@ -7,11 +7,50 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "@/hooks/use-toast";
+import { ApiError, ApiSchemaError, postScan, type ClientErrorCode } from "@/lib/api/client";
+import { checkUpload, UPLOAD_ACCEPT } from "@/lib/api/limits";
+import type { ScanResponse } from "@/lib/api/schema";
 import { cn } from "@/lib/utils";
-import type { MatchItem } from "@/type/result";
+import type { FrameCandidate, FrameResult, GarmentResult } from "@/type/result";
 
 type Props = {
-  onComplete: (matches: MatchItem[]) => void;
+  onComplete: (garments: GarmentResult[], frames?: FrameResult[]) => void;
+};
+
+// What to tell the user per error code; `description` falls back to the
+// server's message, which carries specifics like the size limit
+const ERROR_TOASTS: Partial<Record<ClientErrorCode, { title: string; description?: string }>> = {
+  FILE_TOO_LARGE: { title: "File too large" },
+  UNSUPPORTED_FORMAT: {
+    title: "Unsupported file",
+    description: "Upload a JPEG, PNG, WebP or HEIC screenshot, or an MP4, MOV or WebM video.",
+  },
+  INVALID_TIKTOK_URL: {
+    title: "That isn't a TikTok link",
+    description: "Paste a link like https://www.tiktok.com/@user/video/123…",
+  },
+  VISION_UNAVAILABLE: {
+    title: "Image analysis is unavailable",
+    description: "We couldn't reach the image recognition service. Please try again in a minute.",
+  },
+  TIKTOK_UNAVAILABLE: {
+    title: "TikTok is unavailable",
+    description: "We couldn't load that TikTok. Please try again in a minute.",
+  },
+  SEARCH_QUOTA_EXCEEDED: {
+    title: "Search limit reached",
+    description: "We've used up today's product searches. Please try again later.",
+  },
+};
+
+const showError = (code: ClientErrorCode | undefined, message: string) => {
+  const known = code ? ERROR_TOASTS[code] : undefined;
+  toast({
+    variant: "destructive",
+    title: known?.title ?? "Scan failed",
+    description: known?.description ?? message,
+  });
 };
 
 export default function UploadSection({ onComplete }: Props) {
@@ -21,6 +60,8 @@ export default function UploadSection({ onComplete }: Props) {
   const [isUploading, setIsUploading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [activeTab, setActiveTab] = useState("screenshot");
+  const [candidates, setCandidates] = useState<FrameCandidate[]>([]);
+  const [picked, setPicked] = useState<number[]>([]);
 
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
@@ -44,10 +85,50 @@ export default function UploadSection({ onComplete }: Props) {
   };
 
   const handleFile = (file: File) => {
+    // Don't upload what the server would refuse anyway
+    const problem = checkUpload(file);
+    if (problem) {
+      showError(problem.code, problem.message);
+      return;
+    }
     setFile(file);
+    setCandidates([]);
     handleScan(file);
   };
 
+  const togglePicked = (index: number) =>
+    setPicked((prev) => (prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index]));
+
+  // Shared tail of every request: show notes/warnings, then hand results up
+  const finish = (data: ScanResponse) => {
+    for (const note of data.notes) toast({ description: note });
+    for (const warning of data.warnings) toast({ title: "Heads up", description: warning });
+
+    const frames = data.frames ?? [];
+    const garments = frames.length ? frames[0].garments : data.garments;
+
+    setProgress(100);
+    setTimeout(() => {
+      setIsUploading(false);
+      onComplete(garments, frames);
+      document.getElementById("results")?.scrollIntoView({ behavior: "smooth" });
+    }, 300);
+  };
+
+  const fail = (err: unknown) => {
+    // eslint-disable-next-line no-console
+    console.error("Error scanning outfit:", err);
+    if (err instanceof ApiSchemaError) {
+      // eslint-disable-next-line no-console
+      console.error("Response schema violations:", err.issues);
+    }
+    showError(err instanceof ApiError ? err.code : undefined, err instanceof Error ? err.message : "Something went wrong");
+    // Previous results stay on screen. Back to the drop zone, or to the frame
+    // picker if the user was scanning picked frames
+    setIsUploading(false);
+    if (!candidates.length) setFile(null);
+  };
+
   const handleScan = async (file: File) => {
     setIsUploading(true);
     setProgress(0);
@@ -56,37 +137,48 @@ export default function UploadSection({ onComplete }: Props) {
     formData.append("file", file);
 
     try {
-      // DEBUG: add ?debug=1
-      const res = await fetch("/api/process-image?debug=1", {
-        method: "POST",
-        body: formData,
-      });
-      if (!res.ok) throw new Error(`Upload failed with status ${res.status}`);
-
-      const data = await res.json();
+      // DEBUG: ?debug=1 adds data.debug = { projectId, provider, garments, count }
+      const data = await postScan(formData, { debug: true });
 
-      // DEBUG: log what server derived
-      // Expect data.debug = { projectId, query, attributes, count }
       // eslint-disable-next-line no-console
       console.log("process-image debug (screenshot):", data.debug ?? data);
 
-      const matches: MatchItem[] = Array.isArray(data?.matches)
-        ? data.matches
-        : Array.isArray(data?.items)
-        ? data.items
-        : [];
-
-      setProgress(100);
-      setTimeout(() => {
+      // Video upload: the server sent frames back for the user to choose from
+      if (data.candidates?.length) {
+        setCandidates(data.candidates);
+        setPicked([data.candidates[0].index]);
         setIsUploading(false);
-        onComplete(matches);
-        document.getElementById("results")?.scrollIntoView({ behavior: "smooth" });
-      }, 300);
+        return;
+      }
+
+      finish(data);
     } catch (err) {
+      fail(err);
+    }
+  };
+
+  const handleScanFrames = async () => {
+    const chosen = candidates.filter((c) => picked.includes(c.index));
+    if (!chosen.length) return;
+    setIsUploading(true);
+    setProgress(0);
+
+    try {
+      const formData = new FormData();
+      for (const c of chosen) {
+        const blob = await (await fetch(c.image)).blob();
+        formData.append("file", blob, `frame-${c.index}.jpg`);
+        formData.append("frameTime", String(c.time));
+      }
+
+      const data = await postScan(formData, { debug: true });
+
       // eslint-disable-next-line no-console
-      console.error("Error scanning outfit:", err);
-      setIsUploading(false);
-      onComplete([]);
+      console.log("process-image debug (frames):", data.debug ?? data);
+
+      finish(data);
+    } catch (err) {
+      fail(err);
     }
   };
 
@@ -99,32 +191,14 @@ export default function UploadSection({ onComplete }: Props) {
       const formData = new FormData();
       formData.append("tiktokUrl", tiktokUrl.trim());
 
-      // DEBUG: add ?debug=1
-      const res = await fetch("/api/process-image?debug=1", {
-        method: "POST",
-        body: formData,
-      });
-      if (!res.ok) throw new Error(`Request failed: ${res.status}`);
-
-      const data = await res.json();
+      const data = await postScan(formData, { debug: true });
 
-      // DEBUG
       // eslint-disable-next-line no-console
       console.log("process-image debug (tiktok):", data.debug ?? data);
 
-      const matches: MatchItem[] = Array.isArray(data?.matches) ? data.matches : [];
-
-      setProgress(100);
-      setTimeout(() => {
-        setIsUploading(false);
-        onComplete(matches);
-        document.getElementById("results")?.scrollIntoView({ behavior: "smooth" });
-      }, 300);
-    } catch (e) {
-      // eslint-disable-next-line no-console
-      console.error(e);
-      setIsUploading(false);
-      onComplete([]);
+      finish(data);
+    } catch (err) {
+      fail(err);
     }
   };
 
@@ -168,19 +242,19 @@ export default function UploadSection({ onComplete }: Props) {
                 <div className="mx-auto w-16 h-16 rounded-full bg-primary/20 flex items-center justify-center mb-4">
                   <Upload className="w-8 h-8 text-primary" />
                 </div>
-                <h3 className="text-lg font-medium">Drop your TikTok screenshot here</h3>
+                <h3 className="text-lg font-medium">Drop your TikTok screenshot or screen recording here</h3>
                 <p className="text-gray-500 mt-2 mb-6">or click to browse from your device</p>
                 <Button
                   onClick={openFilePicker}
                   className="rounded-full cursor-pointer bg-primary hover:bg-primary/80 text-primary-foreground"
                 >
                   <ImagePlus className="w-4 h-4 mr-2" />
-                  Choose Screenshot
+                  Choose Screenshot or Video
                 </Button>
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept="image/*"
+                  accept={UPLOAD_ACCEPT}
                   className="hidden"
                   onChange={handleFileInput}
                 />
@@ -188,18 +262,56 @@ export default function UploadSection({ onComplete }: Props) {
                   Works best with clear, full-body outfit shots
                 </p>
               </>
+            ) : candidates.length > 0 && !isUploading ? (
+              <div>
+                <h3 className="text-lg font-medium">Pick the frames to scan</h3>
+                <p className="text-gray-500 mt-2 mb-6">Choose the moments where the outfit is clearly visible</p>
+                <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 mb-6">
+                  {candidates.map((c) => (
+                    <button
+                      key={c.index}
+                      type="button"
+                      onClick={() => togglePicked(c.index)}
+                      className={cn(
+                        "relative rounded-lg overflow-hidden border-2 transition-colors",
+                        picked.includes(c.index) ? "border-primary" : "border-transparent hover:border-gray-300"
+                      )}
+                    >
+                      <img src={c.image} alt={`Frame at ${c.time}s`} className="w-full aspect-[9/16] object-cover" />
+                      <span className="absolute bottom-1 right-1 bg-black/60 text-white text-xs px-1.5 rounded">
+                        {c.time.toFixed(1)}s
+                      </span>
+                    </button>
+                  ))}
+                </div>
+                <Button
+                  onClick={handleScanFrames}
+                  disabled={!picked.length}
+                  className="rounded-full bg-primary hover:bg-primary/80 text-primary-foreground"
+                >
+                  Scan {picked.length} {picked.length === 1 ? "frame" : "frames"}
+                </Button>
+              </div>
             ) : (
               <div className="max-w-md mx-auto">
                 <h3 className="text-lg font-medium mb-4">
-                  {isUploading ? "Analyzing the outfit..." : "Screenshot uploaded!"}
+                  {isUploading
+                    ? "Analyzing the outfit..."
+                    : file?.type.startsWith("video/")
+                    ? "Video uploaded!"
+                    : "Screenshot uploaded!"}
                 </h3>
                 {file && (
                   <div className="relative w-40 h-40 mx-auto mb-4 rounded-lg overflow-hidden">
-                    <img
-                      src={URL.createObjectURL(file)}
-                      alt="TikTok screenshot"
-                      className="object-cover w-full h-full"
-                    />
+                    {file.type.startsWith("video/") ? (
+                      <video src={URL.createObjectURL(file)} muted className="object-cover w-full h-full" />
+                    ) : (
+                      <img
+                        src={URL.createObjectURL(file)}
+                        alt="TikTok screenshot"
+                        className="object-cover w-full h-full"
+                      />
+                    )}
                   </div>
                 )}
                 {isUploading && (
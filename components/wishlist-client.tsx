@@ -0,0 +1,200 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import Link from "next/link";
+import { ExternalLink, FolderPlus, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useWishlist } from "@/hooks/use-wishlist";
+import { MAX_COLLECTION_NAME } from "@/lib/wishlist/shared";
+import type { WishlistItem } from "@/type/wishlist";
+
+// Select values can't be empty; this one stands for "no collection"
+const UNSORTED = "__unsorted";
+const ALL = "__all";
+
+const formatPrice = (price?: string | number) => (typeof price === "number" ? `$${price.toFixed(2)}` : price);
+
+export default function WishlistClient() {
+  const { mode, wishlist, remove, move, createCollection, renameCollection, deleteCollection } = useWishlist();
+  const [filter, setFilter] = useState(ALL);
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<string | null>(null); // collection id being renamed
+  const [rename, setRename] = useState("");
+
+  const active = wishlist.collections.find((c) => c.id === filter);
+  // A deleted collection's filter falls back to everything
+  const current = filter === UNSORTED || active ? filter : ALL;
+  const items = wishlist.items.filter((i) =>
+    current === ALL ? true : current === UNSORTED ? !i.collectionId : i.collectionId === current
+  );
+  const countIn = (id?: string) => wishlist.items.filter((i) => i.collectionId === id).length;
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    await createCollection(newName);
+    setNewName("");
+  };
+
+  const handleRename = async (e: FormEvent) => {
+    e.preventDefault();
+    if (renaming && rename.trim()) await renameCollection(renaming, rename);
+    setRenaming(null);
+  };
+
+  const filterButton = (value: string, label: string, count: number) => (
+    <Button
+      key={value}
+      variant={current === value ? "default" : "outline"}
+      size="sm"
+      className="rounded-full"
+      onClick={() => setFilter(value)}
+    >
+      {label} ({count})
+    </Button>
+  );
+
+  const renderItem = ({ id, item, collectionId }: WishlistItem) => {
+    const title = item.title ?? item.name ?? "Item";
+    const price = formatPrice(item.price);
+    return (
+      <div key={id} className="bg-white rounded-xl overflow-hidden shadow-sm">
+        <div className="aspect-[3/4]">
+          <img src={item.image || "/placeholder.jpg"} alt={title} className="object-cover w-full h-full" />
+        </div>
+        <div className="p-4 space-y-3">
+          <div className="flex justify-between items-start gap-2">
+            <div className="min-w-0">
+              <h3 className="font-medium truncate">{title}</h3>
+              {item.store && <p className="text-sm text-gray-500">{item.store}</p>}
+            </div>
+            {price && <p className="font-semibold">{price}</p>}
+          </div>
+
+          <div className="flex gap-2">
+            <Select value={collectionId ?? UNSORTED} onValueChange={(v) => move(id, v === UNSORTED ? undefined : v)}>
+              <SelectTrigger className="h-8 flex-1 rounded-full" aria-label="Collection">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNSORTED}>Unsorted</SelectItem>
+                {wishlist.collections.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" className="h-8 w-8 rounded-full" onClick={() => remove(id)}>
+              <Trash2 className="w-4 h-4" />
+              <span className="sr-only">Remove from wishlist</span>
+            </Button>
+          </div>
+
+          {item.url && (
+            <a href={item.url} target="_blank" rel="noreferrer" className="block">
+              <Button className="w-full rounded-full">
+                Shop Now <ExternalLink className="w-4 h-4 ml-2" />
+              </Button>
+            </a>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <section className="py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Your wishlist</h1>
+        <p className="mt-2 text-gray-600">
+          {mode === "guest"
+            ? "Saved in this browser. Sign in to keep it with your account."
+            : "Everything you saved from your scans, sorted into collections."}
+        </p>
+      </div>
+
+      {mode === "loading" ? (
+        <div className="text-center py-12 text-gray-500">Loading…</div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            {filterButton(ALL, "All", wishlist.items.length)}
+            {wishlist.collections.map((c) => filterButton(c.id, c.name, countIn(c.id)))}
+            {filterButton(UNSORTED, "Unsorted", countIn(undefined))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 mb-8">
+            <form onSubmit={handleCreate} className="flex gap-2">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="New collection"
+                maxLength={MAX_COLLECTION_NAME}
+                className="h-8 w-48 rounded-full"
+              />
+              <Button type="submit" variant="outline" size="sm" className="rounded-full" disabled={!newName.trim()}>
+                <FolderPlus className="w-4 h-4 mr-1" /> Create
+              </Button>
+            </form>
+
+            {active &&
+              (renaming === active.id ? (
+                <form onSubmit={handleRename} className="flex gap-2">
+                  <Input
+                    value={rename}
+                    onChange={(e) => setRename(e.target.value)}
+                    maxLength={MAX_COLLECTION_NAME}
+                    className="h-8 w-48 rounded-full"
+                    autoFocus
+                  />
+                  <Button type="submit" size="sm" className="rounded-full">
+                    Save
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" className="rounded-full" onClick={() => setRenaming(null)}>
+                    Cancel
+                  </Button>
+                </form>
+              ) : (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="rounded-full"
+                    onClick={() => {
+                      setRenaming(active.id);
+                      setRename(active.name);
+                    }}
+                  >
+                    <Pencil className="w-4 h-4 mr-1" /> Rename
+                  </Button>
+                  <Button variant="outline" size="sm" className="rounded-full" onClick={() => deleteCollection(active.id)}>
+                    <Trash2 className="w-4 h-4 mr-1" /> Delete collection
+                  </Button>
+                </div>
+              ))}
+          </div>
+
+          {items.length ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">{items.map(renderItem)}</div>
+          ) : (
+            <div className="text-center py-12 text-gray-500">
+              {wishlist.items.length ? (
+                "Nothing in this collection yet."
+              ) : (
+                <>
+                  Nothing saved yet. Tap the heart on a result to save it.{" "}
+                  <Link href="/" className="underline hover:text-gray-800">
+                    Scan an outfit
+                  </Link>
+                </>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
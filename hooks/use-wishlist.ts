@@ -0,0 +1,138 @@
+"use client";
+
+// One wishlist shared by every component on the page: the server's copy for
+// signed-in users, the browser's for guests. Changes show immediately and are
+// rolled back if the server refuses them.
+import { useEffect, useSyncExternalStore } from "react";
+import { toast } from "@/hooks/use-toast";
+import {
+  ApiError,
+  createWishlistCollection,
+  deleteWishlistCollection,
+  getWishlist,
+  mergeWishlist,
+  moveWishlistItem,
+  removeWishlistItem,
+  renameWishlistCollection,
+  saveWishlistItem,
+} from "@/lib/api/client";
+import { clearLocalWishlist, isEmptyWishlist, readLocalWishlist, writeLocalWishlist } from "@/lib/wishlist/local";
+import {
+  addCollection,
+  addItem,
+  EMPTY_WISHLIST,
+  moveItem,
+  productKey,
+  removeCollection,
+  removeItem,
+  renameCollection,
+} from "@/lib/wishlist/shared";
+import type { MatchItem } from "@/type/result";
+import type { Wishlist } from "@/type/wishlist";
+import type { WishlistResponse } from "@/lib/api/schema";
+
+type WishlistMode = "loading" | "guest" | "account";
+
+type State = { mode: WishlistMode; wishlist: Wishlist };
+
+let state: State = { mode: "loading", wishlist: EMPTY_WISHLIST };
+let loading: Promise<void> | undefined;
+const listeners = new Set<() => void>();
+
+function setState(next: State) {
+  state = next;
+  listeners.forEach((l) => l());
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const SERVER_STATE: State = { mode: "loading", wishlist: EMPTY_WISHLIST };
+
+// -------- Loading --------
+// A 401 means a guest. Signed-in users get anything saved while they were a
+// guest folded into their account once, then the browser copy is dropped.
+function load(): Promise<void> {
+  loading ??= (async () => {
+    try {
+      let { wishlist } = await getWishlist();
+      const local = readLocalWishlist();
+      if (!isEmptyWishlist(local)) {
+        ({ wishlist } = await mergeWishlist(local));
+        clearLocalWishlist();
+      }
+      setState({ mode: "account", wishlist });
+    } catch (err) {
+      // Any other failure also falls back to the browser copy, so saving still works
+      if (!(err instanceof ApiError && err.code === "UNAUTHORIZED")) console.warn("[wishlist] couldn't load:", err);
+      setState({ mode: "guest", wishlist: readLocalWishlist() });
+    }
+  })();
+  return loading;
+}
+
+// After signing in or out: whose wishlist this is has changed
+export function reloadWishlist(): Promise<void> {
+  loading = undefined;
+  setState({ mode: "loading", wishlist: EMPTY_WISHLIST });
+  return load();
+}
+
+// -------- Changes --------
+// Applies `local` right away; for accounts, `remote` then replaces it with the
+// server's answer or the change is undone.
+async function change(local: (w: Wishlist) => Wishlist, remote: () => Promise<WishlistResponse>, failure: string) {
+  await load();
+  const before = state.wishlist;
+  const next = local(before);
+  setState({ ...state, wishlist: next });
+
+  if (state.mode === "guest") {
+    writeLocalWishlist(next);
+    return;
+  }
+  try {
+    setState({ ...state, wishlist: (await remote()).wishlist });
+  } catch (err) {
+    setState({ ...state, wishlist: before });
+    toast({
+      variant: "destructive",
+      title: failure,
+      description: err instanceof Error ? err.message : "Something went wrong",
+    });
+  }
+}
+
+const actions = {
+  save: (item: MatchItem, collectionId?: string) =>
+    change((w) => addItem(w, item, collectionId), () => saveWishlistItem(item, collectionId), "Couldn't save that item"),
+  remove: (id: string) => change((w) => removeItem(w, id), () => removeWishlistItem(id), "Couldn't remove that item"),
+  move: (id: string, collectionId?: string) =>
+    change((w) => moveItem(w, id, collectionId), () => moveWishlistItem(id, collectionId), "Couldn't move that item"),
+  createCollection: (name: string) =>
+    change((w) => addCollection(w, name), () => createWishlistCollection(name), "Couldn't create that collection"),
+  renameCollection: (id: string, name: string) =>
+    change(
+      (w) => renameCollection(w, id, name),
+      () => renameWishlistCollection(id, name),
+      "Couldn't rename that collection"
+    ),
+  deleteCollection: (id: string) =>
+    change((w) => removeCollection(w, id), () => deleteWishlistCollection(id), "Couldn't delete that collection"),
+};
+
+// -------- Hook --------
+export function useWishlist() {
+  const { mode, wishlist } = useSyncExternalStore(subscribe, () => state, () => SERVER_STATE);
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const isSaved = (item: MatchItem) => wishlist.items.some((i) => i.id === productKey(item));
+  const toggle = (item: MatchItem) => (isSaved(item) ? actions.remove(productKey(item)) : actions.save(item));
+
+  return { mode, wishlist, isSaved, toggle, ...actions };
+}
@@ -0,0 +1,211 @@
+// lib/api/client.ts
+import type { z } from "zod";
+import type { Attributes, MatchItem } from "@/type/result";
+import type { Preferences } from "@/type/account";
+import type { Wishlist } from "@/type/wishlist";
+import type { ErrorCode } from "./errors";
+import {
+  AccountResponseSchema,
+  DeletedResponseSchema,
+  ErrorResponseSchema,
+  HistoryListResponseSchema,
+  HistoryScanResponseSchema,
+  PreferencesResponseSchema,
+  ScanResponseSchema,
+  SearchResponseSchema,
+  SignInLinkResponseSchema,
+  WishlistResponseSchema,
+  type AccountResponse,
+  type CredentialsRequest,
+  type DeletedResponse,
+  type HistoryListResponse,
+  type HistoryScanResponse,
+  type PreferencesResponse,
+  type ScanResponse,
+  type SearchRequest,
+  type SearchResponse,
+  type SignInLinkRequest,
+  type SignInLinkResponse,
+  type SignUpRequest,
+  type WishlistResponse,
+} from "./schema";
+
+// BAD_RESPONSE: the server didn't answer with JSON at all (proxy error page etc.)
+export type ClientErrorCode = ErrorCode | "BAD_RESPONSE";
+
+// The server answered with a well-formed error
+export class ApiError extends Error {
+  constructor(
+    public code: ClientErrorCode,
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// The server answered with something that doesn't match the contract
+export class ApiSchemaError extends Error {
+  constructor(public issues: string[]) {
+    super(`Unexpected response from server: ${issues.slice(0, 3).join("; ")}`);
+    this.name = "ApiSchemaError";
+  }
+}
+
+function issuesOf(error: z.ZodError) {
+  return error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+}
+
+// Validates against the error or the expected shape (picked by the `error` key,
+// so violations point at the actual bad field) and throws for error responses.
+function parseWith<T>(schema: z.ZodType<T, any, any>, data: unknown, status: number): T {
+  if (data && typeof data === "object" && "error" in data) {
+    const parsed = ErrorResponseSchema.safeParse(data);
+    if (!parsed.success) throw new ApiSchemaError(issuesOf(parsed.error));
+    throw new ApiError(parsed.data.error.code, parsed.data.error.message, status);
+  }
+
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) throw new ApiSchemaError(issuesOf(parsed.error));
+  return parsed.data;
+}
+
+export function parseScanResponse(data: unknown, status = 200): ScanResponse {
+  return parseWith(ScanResponseSchema, data, status);
+}
+
+async function readJson(res: Response): Promise<unknown> {
+  try {
+    return await res.json();
+  } catch {
+    throw new ApiError("BAD_RESPONSE", `Request failed with status ${res.status}`, res.status);
+  }
+}
+
+// -------- /api/process-image --------
+export async function postScan(body: FormData, opts: { debug?: boolean } = {}): Promise<ScanResponse> {
+  const res = await fetch(`/api/process-image${opts.debug ? "?debug=1" : ""}`, {
+    method: "POST",
+    body,
+  });
+  return parseScanResponse(await readJson(res), res.status);
+}
+
+// -------- /api/search --------
+export async function postSearch(attributes: Attributes): Promise<SearchResponse> {
+  const body: SearchRequest = { attributes };
+  const res = await fetch("/api/search", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return parseWith(SearchResponseSchema, await readJson(res), res.status);
+}
+
+// -------- /api/history --------
+export async function listHistory(): Promise<HistoryListResponse> {
+  const res = await fetch("/api/history", { cache: "no-store" });
+  return parseWith(HistoryListResponseSchema, await readJson(res), res.status);
+}
+
+export async function getHistoryScan(id: string): Promise<HistoryScanResponse> {
+  const res = await fetch(`/api/history/${encodeURIComponent(id)}`, { cache: "no-store" });
+  return parseWith(HistoryScanResponseSchema, await readJson(res), res.status);
+}
+
+// Searches again with the stored attributes; no new Vision scan
+export async function rerunHistoryScan(id: string): Promise<HistoryScanResponse> {
+  const res = await fetch(`/api/history/${encodeURIComponent(id)}/rerun`, { method: "POST" });
+  return parseWith(HistoryScanResponseSchema, await readJson(res), res.status);
+}
+
+export async function deleteHistoryScan(id: string): Promise<DeletedResponse> {
+  const res = await fetch(`/api/history/${encodeURIComponent(id)}`, { method: "DELETE" });
+  return parseWith(DeletedResponseSchema, await readJson(res), res.status);
+}
+
+// -------- /api/wishlist --------
+// Guests get UNAUTHORIZED (401) from all of these; their wishlist lives in the browser
+async function sendWishlist(path: string, method: string, body?: unknown): Promise<WishlistResponse> {
+  const res = await fetch(`/api/wishlist${path}`, {
+    method,
+    cache: "no-store",
+    ...(body === undefined
+      ? {}
+      : { headers: { "content-type": "application/json" }, body: JSON.stringify(body) }),
+  });
+  return parseWith(WishlistResponseSchema, await readJson(res), res.status);
+}
+
+export const getWishlist = () => sendWishlist("", "GET");
+
+export const saveWishlistItem = (item: MatchItem, collectionId?: string) =>
+  sendWishlist("/items", "POST", { item, collectionId });
+
+export const removeWishlistItem = (id: string) => sendWishlist(`/items/${encodeURIComponent(id)}`, "DELETE");
+
+export const moveWishlistItem = (id: string, collectionId?: string) =>
+  sendWishlist(`/items/${encodeURIComponent(id)}`, "PATCH", { collectionId: collectionId ?? null });
+
+export const createWishlistCollection = (name: string) => sendWishlist("/collections", "POST", { name });
+
+export const renameWishlistCollection = (id: string, name: string) =>
+  sendWishlist(`/collections/${encodeURIComponent(id)}`, "PATCH", { name });
+
+export const deleteWishlistCollection = (id: string) =>
+  sendWishlist(`/collections/${encodeURIComponent(id)}`, "DELETE");
+
+// Folds a guest's browser wishlist into their account
+export const mergeWishlist = (wishlist: Wishlist) => sendWishlist("/merge", "POST", { wishlist });
+
+// -------- /api/auth --------
+async function postJson(url: string, body?: unknown): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body ?? {}),
+  });
+}
+
+// The signed-in user, or null for visitors
+export async function getAccount(): Promise<AccountResponse> {
+  const res = await fetch("/api/auth/me", { cache: "no-store" });
+  return parseWith(AccountResponseSchema, await readJson(res), res.status);
+}
+
+// Mails the link that creates the account; signed in once it's opened
+export async function signUp(body: SignUpRequest): Promise<SignInLinkResponse> {
+  const res = await postJson("/api/auth/signup", body);
+  return parseWith(SignInLinkResponseSchema, await readJson(res), res.status);
+}
+
+export async function signIn(body: CredentialsRequest): Promise<AccountResponse> {
+  const res = await postJson("/api/auth/signin", body);
+  return parseWith(AccountResponseSchema, await readJson(res), res.status);
+}
+
+export async function signOut(): Promise<AccountResponse> {
+  const res = await postJson("/api/auth/signout");
+  return parseWith(AccountResponseSchema, await readJson(res), res.status);
+}
+
+export async function requestSignInLink(body: SignInLinkRequest): Promise<SignInLinkResponse> {
+  const res = await postJson("/api/auth/magic-link", body);
+  return parseWith(SignInLinkResponseSchema, await readJson(res), res.status);
+}
+
+// -------- /api/preferences --------
+export async function getPreferences(): Promise<PreferencesResponse> {
+  const res = await fetch("/api/preferences", { cache: "no-store" });
+  return parseWith(PreferencesResponseSchema, await readJson(res), res.status);
+}
+
+export async function savePreferences(preferences: Preferences): Promise<PreferencesResponse> {
+  const res = await fetch("/api/preferences", {
+    method: "PUT",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(preferences),
+  });
+  return parseWith(PreferencesResponseSchema, await readJson(res), res.status);
+}
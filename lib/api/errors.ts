@@ -0,0 +1,44 @@
+// lib/api/errors.ts
+// Error codes shared by the routes and the client. Server code throws AppError
+// (or a subclass) and the routes turn it into an error response with the
+// matching HTTP status; anything else becomes INTERNAL.
+
+export const ERROR_CODES = [
+  "BAD_REQUEST",
+  "UNAUTHORIZED",
+  "NOT_FOUND",
+  "INVALID_TIKTOK_URL",
+  "FILE_TOO_LARGE",
+  "UNSUPPORTED_FORMAT",
+  "VISION_UNAVAILABLE",
+  "TIKTOK_UNAVAILABLE",
+  "SEARCH_QUOTA_EXCEEDED",
+  "RATE_LIMITED",
+  "INTERNAL",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  BAD_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  NOT_FOUND: 404,
+  INVALID_TIKTOK_URL: 400,
+  FILE_TOO_LARGE: 413,
+  UNSUPPORTED_FORMAT: 415,
+  VISION_UNAVAILABLE: 503,
+  TIKTOK_UNAVAILABLE: 503,
+  SEARCH_QUOTA_EXCEEDED: 429,
+  RATE_LIMITED: 429,
+  INTERNAL: 500,
+};
+
+export class AppError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "AppError";
+  }
+}
@@ -0,0 +1,49 @@
+// lib/api/limits.ts
+// Upload limits, checked in the browser before sending and again by the route.
+import type { ErrorCode } from "./errors";
+
+export const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+export const MAX_IMAGE_SIDE = 12_000;          // px, before we downsize it
+export const MAX_IMAGE_PIXELS = 60_000_000;    // decoding more than this is a memory risk
+export const MAX_FRAMES_PER_SCAN = 6;          // picked video frames per request
+
+export const IMAGE_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "image/heic",
+  "image/heif",
+  "image/avif",
+  "image/tiff",
+];
+export const VIDEO_MIME_TYPES = ["video/mp4", "video/quicktime", "video/webm"];
+
+// For <input accept>; HEIC is listed by extension because some browsers
+// report it without a MIME type
+export const UPLOAD_ACCEPT = [...IMAGE_MIME_TYPES, ...VIDEO_MIME_TYPES, ".heic", ".heif"].join(",");
+
+// Browsers send HEIC (and sometimes anything) as "" or octet-stream; those are
+// let through and the image's bytes decide
+const UNTYPED = ["", "application/octet-stream"];
+
+const mb = (bytes: number) => `${Math.round(bytes / 1024 / 1024)} MB`;
+
+export const isVideoUpload = (file: { type: string; name: string }) =>
+  VIDEO_MIME_TYPES.includes(file.type) || /\.(mp4|mov|webm)$/i.test(file.name);
+
+export function checkUpload(file: { type: string; size: number; name: string }): { code: ErrorCode; message: string } | undefined {
+  if (isVideoUpload(file)) {
+    return file.size > MAX_VIDEO_BYTES
+      ? { code: "FILE_TOO_LARGE", message: `Video is too large (max ${mb(MAX_VIDEO_BYTES)})` }
+      : undefined;
+  }
+  if (!IMAGE_MIME_TYPES.includes(file.type) && !UNTYPED.includes(file.type)) {
+    return { code: "UNSUPPORTED_FORMAT", message: `${file.type} files aren't supported` };
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return { code: "FILE_TOO_LARGE", message: `Image is too large (max ${mb(MAX_IMAGE_BYTES)})` };
+  }
+  return undefined;
+}
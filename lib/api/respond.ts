@@ -0,0 +1,87 @@
+// lib/api/respond.ts
+import { NextResponse } from "next/server";
+import { AppError, ERROR_STATUS, type ErrorCode } from "./errors";
+import {
+  API_VERSION,
+  type AccountResponse,
+  type DeletedResponse,
+  type ErrorResponse,
+  type HistoryListResponse,
+  type HistoryScanResponse,
+  type PreferencesResponse,
+  type ScanResponse,
+  type SearchResponse,
+  type SignInLinkResponse,
+  type UsageResponse,
+  type WishlistResponse,
+} from "./schema";
+
+type ScanBody = Omit<ScanResponse, "version" | "notes" | "warnings"> &
+  Partial<Pick<ScanResponse, "notes" | "warnings">>;
+
+type SearchBody = Omit<SearchResponse, "version" | "notes" | "warnings"> &
+  Partial<Pick<SearchResponse, "notes" | "warnings">>;
+
+// -------- Typed JSON responses --------
+export function scanResponse(body: ScanBody, status = 200) {
+  const res: ScanResponse = { version: API_VERSION, notes: [], warnings: [], ...body };
+  return NextResponse.json(res, { status });
+}
+
+export function searchResponse(body: SearchBody, status = 200) {
+  const res: SearchResponse = { version: API_VERSION, notes: [], warnings: [], ...body };
+  return NextResponse.json(res, { status });
+}
+
+export function usageResponse(body: Omit<UsageResponse, "version">) {
+  const res: UsageResponse = { version: API_VERSION, ...body };
+  return NextResponse.json(res);
+}
+
+export function historyListResponse(body: Omit<HistoryListResponse, "version">) {
+  const res: HistoryListResponse = { version: API_VERSION, ...body };
+  return NextResponse.json(res);
+}
+
+export function historyScanResponse(body: Omit<HistoryScanResponse, "version" | "warnings"> & { warnings?: string[] }) {
+  const res: HistoryScanResponse = { version: API_VERSION, warnings: [], ...body };
+  return NextResponse.json(res);
+}
+
+export function deletedResponse(deleted: boolean) {
+  const res: DeletedResponse = { version: API_VERSION, deleted };
+  return NextResponse.json(res);
+}
+
+export function wishlistResponse(wishlist: WishlistResponse["wishlist"]) {
+  const res: WishlistResponse = { version: API_VERSION, wishlist };
+  return NextResponse.json(res);
+}
+
+export function accountResponse(user: AccountResponse["user"]) {
+  const res: AccountResponse = { version: API_VERSION, user };
+  return NextResponse.json(res);
+}
+
+export function signInLinkResponse(email: string) {
+  const res: SignInLinkResponse = { version: API_VERSION, email };
+  return NextResponse.json(res);
+}
+
+export function preferencesResponse(preferences: PreferencesResponse["preferences"]) {
+  const res: PreferencesResponse = { version: API_VERSION, preferences };
+  return NextResponse.json(res);
+}
+
+export function errorResponse(code: ErrorCode, message: string, status = ERROR_STATUS[code]) {
+  const res: ErrorResponse = { version: API_VERSION, error: { code, message } };
+  return NextResponse.json(res, { status });
+}
+
+// For a route's catch-all: AppErrors keep their code, anything else is logged
+// and reported without internals
+export function errorFromException(err: unknown, route: string) {
+  if (err instanceof AppError) return errorResponse(err.code, err.message);
+  console.error(`${route} error:`, err);
+  return errorResponse("INTERNAL", "Something went wrong on our side. Please try again.");
+}
@@ -0,0 +1,318 @@
+// lib/api/schema.ts
+// Response contract for /api/process-image, shared by the route and the client.
+// Bump API_VERSION on any breaking change to these shapes.
+import { z } from "zod";
+import { ERROR_CODES } from "./errors";
+import type {
+  Attributes,
+  BoundingBox,
+  CacheOutcome,
+  CacheStatus,
+  FrameCandidate,
+  FrameResult,
+  GarmentClass,
+  GarmentResult,
+  MatchItem,
+  MatchSource,
+  QueryVariant,
+} from "@/type/result";
+import type { Preferences, User } from "@/type/account";
+import type { ScanRecord, ScanSummary } from "@/type/history";
+import type { Wishlist } from "@/type/wishlist";
+
+export const API_VERSION = 1;
+
+const QUERY_VARIANTS = ["strict", "relaxed", "no-color", "no-brand", "best-guess"] as const satisfies readonly QueryVariant[];
+const MATCH_SOURCES = ["shopping", "page", "similar-image"] as const satisfies readonly MatchSource[];
+const CACHE_OUTCOMES = ["hit", "near-hit", "miss", "off"] as const satisfies readonly CacheOutcome[];
+
+// -------- Building blocks --------
+export const GarmentClassSchema: z.ZodType<GarmentClass> = z.object({
+  department: z.string(),
+  category: z.string(),
+  subcategory: z.string().optional(),
+});
+
+export const MatchItemSchema: z.ZodType<MatchItem> = z.object({
+  id: z.union([z.string(), z.number()]).optional(),
+  title: z.string().optional(),
+  name: z.string().optional(),
+  price: z.union([z.string(), z.number()]).optional(),
+  store: z.string().optional(),
+  url: z.string().optional(),
+  image: z.string().optional(),
+  match: z.number().optional(),
+  garment: GarmentClassSchema.optional(),
+  variant: z.enum(QUERY_VARIANTS).optional(),
+  source: z.enum(MATCH_SOURCES).optional(),
+});
+
+const ScoredValueSchema = z.object({ value: z.string(), confidence: z.number().min(0).max(1) });
+
+export const AttributesSchema: z.ZodType<Attributes> = z.object({
+  brand: z.string().optional(),
+  department: z.string().optional(),
+  category: z.string().optional(),
+  subcategory: z.string().optional(),
+  gender: z.string().optional(),
+  age: z.string().optional(),
+  colors: z.array(z.string()).optional(),
+  swatches: z.array(z.object({ name: z.string(), hex: z.string() })).optional(),
+  patterns: z.array(z.string()).optional(),
+  texts: z.array(z.string()).optional(),
+  bestGuess: z.string().optional(),
+  confidence: z
+    .object({ brand: z.number().min(0).max(1).optional(), category: z.number().min(0).max(1).optional() })
+    .optional(),
+  candidates: z
+    .object({
+      brand: z.array(ScoredValueSchema),
+      category: z.array(ScoredValueSchema),
+      subcategory: z.array(ScoredValueSchema),
+      colors: z.array(ScoredValueSchema),
+      patterns: z.array(ScoredValueSchema),
+    })
+    .optional(),
+});
+
+export const BoundingBoxSchema: z.ZodType<BoundingBox> = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+export const GarmentResultSchema: z.ZodType<GarmentResult> = z.object({
+  id: z.string(),
+  label: z.string(),
+  box: BoundingBoxSchema.optional(),
+  attributes: AttributesSchema,
+  query: z.string(),
+  matches: z.array(MatchItemSchema),
+  looks: z.array(MatchItemSchema).optional(),
+});
+
+export const FrameResultSchema: z.ZodType<FrameResult> = z.object({
+  index: z.number(),
+  time: z.number(),
+  image: z.string().optional(),
+  garments: z.array(GarmentResultSchema),
+});
+
+export const FrameCandidateSchema: z.ZodType<FrameCandidate> = z.object({
+  index: z.number(),
+  time: z.number(),
+  image: z.string(),
+});
+
+export const CacheStatusSchema: z.ZodType<CacheStatus> = z.object({
+  analysis: z.enum(CACHE_OUTCOMES),
+  search: z.enum(CACHE_OUTCOMES),
+});
+
+// -------- Responses --------
+export const ScanResponseSchema = z.object({
+  version: z.literal(API_VERSION),
+  matches: z.array(MatchItemSchema),       // every garment's matches, flattened
+  garments: z.array(GarmentResultSchema),  // single-image scans
+  frames: z.array(FrameResultSchema).optional(),         // video / TikTok scans
+  candidates: z.array(FrameCandidateSchema).optional(),  // video uploads awaiting a pick
+  notes: z.array(z.string()),     // guidance for the user
+  warnings: z.array(z.string()),  // partial failures; results may be incomplete
+  cache: CacheStatusSchema.optional(), // whether earlier scans of this image were reused
+  scanId: z.string().optional(),       // where the scan was saved in history
+  debug: z.record(z.unknown()).optional(),
+});
+
+export const ErrorResponseSchema = z.object({
+  version: z.literal(API_VERSION),
+  error: z.object({
+    code: z.enum(ERROR_CODES),
+    message: z.string(),
+  }),
+});
+
+export type ScanResponse = z.infer<typeof ScanResponseSchema>;
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
+
+// -------- /api/search (attributes in, matches out; no Vision) --------
+export const SearchRequestSchema = z.object({
+  attributes: AttributesSchema,
+});
+
+export const SearchResponseSchema = z.object({
+  version: z.literal(API_VERSION),
+  attributes: AttributesSchema,
+  query: z.string(),
+  matches: z.array(MatchItemSchema),
+  notes: z.array(z.string()),
+  warnings: z.array(z.string()),
+});
+
+export type SearchRequest = z.infer<typeof SearchRequestSchema>;
+export type SearchResponse = z.infer<typeof SearchResponseSchema>;
+
+// -------- /api/admin/usage (paid search credits) --------
+export const BudgetUsageSchema = z.object({
+  provider: z.string(),
+  mode: z.enum(["cache-only", "refuse"]),
+  exhausted: z.boolean(),
+  periods: z.array(
+    z.object({
+      period: z.enum(["day", "month"]),
+      key: z.string(),      // "2026-10-19" / "2026-10"
+      used: z.number(),
+      limit: z.number().optional(), // absent = unlimited
+      resetsAt: z.string(),
+    })
+  ),
+});
+
+export const UsageResponseSchema = z.object({
+  version: z.literal(API_VERSION),
+  provider: z.string(),
+  cache: z.string(),                     // cache store name, "off" when disabled
+  budget: BudgetUsageSchema.optional(),  // free providers have none
+});
+
+export type UsageResponse = z.infer<typeof UsageResponseSchema>;
+
+// -------- /api/history (past scans) --------
+const SCAN_SOURCES = ["image", "frames", "tiktok"] as const;
+
+export const ScanSummarySchema: z.ZodType<ScanSummary> = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  source: z.enum(SCAN_SOURCES),
+  tiktokUrl: z.string().optional(),
+  thumbnail: z.string().optional(),
+  labels: z.array(z.string()),
+  matches: z.number(),
+});
+
+export const ScanRecordSchema: z.ZodType<ScanRecord> = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  source: z.enum(SCAN_SOURCES),
+  tiktokUrl: z.string().optional(),
+  thumbnail: z.string().optional(),
+  garments: z.array(GarmentResultSchema),
+  frames: z.array(FrameResultSchema).optional(),
+});
+
+export const HistoryListResponseSchema = z.object({
+  version: z.literal(API_VERSION),
+  scans: z.array(ScanSummarySchema), // newest first
+});
+
+export const HistoryScanResponseSchema = z.object({
+  version: z.literal(API_VERSION),
+  scan: ScanRecordSchema,
+  warnings: z.array(z.string()),
+});
+
+export const DeletedResponseSchema = z.object({
+  version: z.literal(API_VERSION),
+  deleted: z.boolean(),
+});
+
+export type HistoryListResponse = z.infer<typeof HistoryListResponseSchema>;
+export type HistoryScanResponse = z.infer<typeof HistoryScanResponseSchema>;
+export type DeletedResponse = z.infer<typeof DeletedResponseSchema>;
+
+// -------- /api/wishlist (signed-in users) --------
+export const WishlistSchema: z.ZodType<Wishlist> = z.object({
+  items: z.array(
+    z.object({
+      id: z.string(),
+      item: MatchItemSchema,
+      collectionId: z.string().optional(),
+      addedAt: z.string(),
+    })
+  ),
+  collections: z.array(z.object({ id: z.string(), name: z.string(), createdAt: z.string() })),
+});
+
+// Every wishlist call answers with the whole, updated wishlist
+export const WishlistResponseSchema = z.object({
+  version: z.literal(API_VERSION),
+  wishlist: WishlistSchema,
+});
+
+export const SaveItemRequestSchema = z.object({
+  item: MatchItemSchema,
+  collectionId: z.string().optional(),
+});
+
+export const MoveItemRequestSchema = z.object({
+  collectionId: z.string().nullable(), // null = unsorted
+});
+
+export const CollectionRequestSchema = z.object({
+  name: z.string().min(1),
+});
+
+export const MergeWishlistRequestSchema = z.object({
+  wishlist: WishlistSchema,
+});
+
+export type WishlistResponse = z.infer<typeof WishlistResponseSchema>;
+export type SaveItemRequest = z.infer<typeof SaveItemRequestSchema>;
+export type MoveItemRequest = z.infer<typeof MoveItemRequestSchema>;
+export type CollectionRequest = z.infer<typeof CollectionRequestSchema>;
+export type MergeWishlistRequest = z.infer<typeof MergeWishlistRequestSchema>;
+
+// -------- /api/auth --------
+export const UserSchema: z.ZodType<User> = z.object({
+  id: z.string(),
+  email: z.string(),
+  createdAt: z.string(),
+});
+
+// `user` is null for visitors
+export const AccountResponseSchema = z.object({
+  version: z.literal(API_VERSION),
+  user: UserSchema.nullable(),
+});
+
+export const CredentialsRequestSchema = z.object({
+  email: z.string().trim().email(),
+  password: z.string().min(1),
+});
+
+export const SignUpRequestSchema = CredentialsRequestSchema.extend({
+  next: z.string().optional(), // path to land on once the emailed link is opened
+});
+
+export const SignInLinkRequestSchema = z.object({
+  email: z.string().trim().email(),
+  next: z.string().optional(), // path to land on after signing in
+});
+
+// Sent whether or not an account exists yet (for sign-in and sign-up alike);
+// the link creates it
+export const SignInLinkResponseSchema = z.object({
+  version: z.literal(API_VERSION),
+  email: z.string(),
+});
+
+export type AccountResponse = z.infer<typeof AccountResponseSchema>;
+export type CredentialsRequest = z.infer<typeof CredentialsRequestSchema>;
+export type SignUpRequest = z.infer<typeof SignUpRequestSchema>;
+export type SignInLinkRequest = z.infer<typeof SignInLinkRequestSchema>;
+export type SignInLinkResponse = z.infer<typeof SignInLinkResponseSchema>;
+
+// -------- /api/preferences --------
+export const PreferencesSchema: z.ZodType<Preferences> = z.object({
+  gender: z.string().optional(),
+  age: z.string().optional(),
+});
+
+export const PreferencesResponseSchema = z.object({
+  version: z.literal(API_VERSION),
+  preferences: PreferencesSchema,
+});
+
+export type PreferencesResponse = z.infer<typeof PreferencesResponseSchema>;
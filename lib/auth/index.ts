@@ -0,0 +1,180 @@
+// lib/auth/index.ts
+// Accounts: email + password, or a one-time link mailed to the address
+// (which also creates the account on first use). Either way no account exists
+// until a link mailed to its address is redeemed. Signing in starts a session
+// (lib/session) and hands the visitor's scans and preferences to the account;
+// the browser merges a guest wishlist itself (hooks/use-wishlist).
+import { createHash, randomBytes } from "node:crypto";
+import { v4 as uuid } from "uuid";
+import { AppError } from "@/lib/api/errors";
+import { getDb } from "@/lib/db";
+import { transferScans } from "@/lib/history";
+import { getMailer } from "@/lib/mail";
+import { transferPreferences } from "@/lib/preferences";
+import { existingVisitorId, startSession } from "@/lib/session";
+import type { User } from "@/type/account";
+import { hashPassword, MIN_PASSWORD_LENGTH, verifyPassword } from "./password";
+
+export { MIN_PASSWORD_LENGTH } from "./password";
+
+const LINK_TTL_MS = 15 * 60 * 1000;
+const MAX_LINKS_PER_WINDOW = 5; // per address, within LINK_TTL_MS
+
+type UserRow = {
+  id: string;
+  email: string;
+  password_hash: string | null;
+  created_at: number;
+  email_verified_at: number | null;
+};
+
+const toUser = (row: UserRow): User => ({ id: row.id, email: row.email, createdAt: new Date(row.created_at).toISOString() });
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+// Only same-site paths, so a link can't bounce people to another site
+export const safeNext = (next?: string | null) => (next && /^\/(?!\/)/.test(next) && !next.includes("\\") ? next : "/");
+
+// -------- Users --------
+export function getUser(id: string): User | undefined {
+  const row = getDb().prepare("SELECT * FROM users WHERE id = ?").get(id) as UserRow | undefined;
+  return row ? toUser(row) : undefined;
+}
+
+function findByEmail(email: string): UserRow | undefined {
+  return getDb().prepare("SELECT * FROM users WHERE email = ?").get(normalizeEmail(email)) as UserRow | undefined;
+}
+
+// Only called once a link mailed to the address was redeemed
+function insertUser(email: string, passwordHash: string | null): User {
+  const now = Date.now();
+  const row: UserRow = {
+    id: uuid(),
+    email: normalizeEmail(email),
+    password_hash: passwordHash,
+    created_at: now,
+    email_verified_at: now,
+  };
+  getDb()
+    .prepare("INSERT INTO users (id, email, password_hash, created_at, email_verified_at) VALUES (?, ?, ?, ?, ?)")
+    .run(row.id, row.email, row.password_hash, row.created_at, row.email_verified_at);
+  return toUser(row);
+}
+
+// -------- Email + password --------
+// Mails a link that creates the account, with this password, when redeemed.
+// The caller answers the same whether or not the email has an account, so
+// sign-up can't be used to find out which are registered: an existing
+// account gets a plain sign-in link instead (its password is left alone).
+export async function signUp(email: string, password: string, origin: string, next?: string): Promise<void> {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new AppError("BAD_REQUEST", `Use at least ${MIN_PASSWORD_LENGTH} characters for your password`);
+  }
+  const passwordHash = await hashPassword(password); // either way, so both take as long
+  if (findByEmail(email)) return sendSignInLink(email, origin, next);
+  await mailLink(email, origin, next, passwordHash);
+}
+
+// Same answer for an unknown address and a wrong password
+export async function signInWithPassword(email: string, password: string): Promise<User> {
+  const row = findByEmail(email);
+  if (!row?.password_hash || !(await verifyPassword(password, row.password_hash))) {
+    throw new AppError("UNAUTHORIZED", "Wrong email or password");
+  }
+  // Registered before sign-ups were confirmed by email: the password may not
+  // be the address owner's, so it only works once a link has been redeemed
+  if (row.email_verified_at === null) {
+    throw new AppError("UNAUTHORIZED", "Please confirm your email first: sign in once with an email link.");
+  }
+  return toUser(row);
+}
+
+// -------- Email links --------
+// `origin` is where the link points (APP_URL wins when set, for deployments
+// behind a proxy); `next` is where the user lands after signing in.
+export function sendSignInLink(email: string, origin: string, next?: string): Promise<void> {
+  return mailLink(email, origin, next);
+}
+
+// A link with `passwordHash` confirms a sign-up and creates the account with it
+async function mailLink(email: string, origin: string, next?: string, passwordHash?: string): Promise<void> {
+  const address = normalizeEmail(email);
+  const db = getDb();
+  const now = Date.now();
+  db.prepare("DELETE FROM login_tokens WHERE expires_at <= ?").run(now);
+
+  const { n } = db
+    .prepare("SELECT COUNT(*) AS n FROM login_tokens WHERE email = ? AND created_at > ?")
+    .get(address, now - LINK_TTL_MS) as { n: number };
+  if (n >= MAX_LINKS_PER_WINDOW) {
+    throw new AppError("RATE_LIMITED", "Too many sign-in links for that email. Try again in a few minutes.");
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  db.prepare(
+    "INSERT INTO login_tokens (token_hash, email, created_at, expires_at, password_hash) VALUES (?, ?, ?, ?, ?)"
+  ).run(hashToken(token), address, now, now + LINK_TTL_MS, passwordHash ?? null);
+
+  const url = new URL("/signin/verify", process.env.APP_URL || origin);
+  url.searchParams.set("token", token);
+  if (next) url.searchParams.set("next", safeNext(next));
+  const signingUp = passwordHash !== undefined;
+  await getMailer().send({
+    to: address,
+    subject: signingUp ? "Confirm your Outfit Scanner account" : "Your Outfit Scanner sign-in link",
+    text: [
+      signingUp
+        ? "Open this link to confirm your email and finish creating your Outfit Scanner account:"
+        : "Open this link to sign in to Outfit Scanner:",
+      "",
+      url.toString(),
+      "",
+      `It works once and expires in ${LINK_TTL_MS / 60000} minutes. If you didn't ask for it, ignore this email.`,
+    ].join("\n"),
+  });
+}
+
+// Links are single use; the first use of an address creates its account
+// (with the password of the sign-up that sent it, if any).
+// Redeeming one proves the email is yours. An account registered before
+// sign-ups were confirmed may belong to someone else who typed your address,
+// so its password, sessions and everything it saved are dropped: its owner
+// starts from an empty account and signs in with links from then on.
+export function redeemSignInLink(token: string): User {
+  const db = getDb();
+  return db.transaction(() => {
+    const row = db
+      .prepare("SELECT email, password_hash FROM login_tokens WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?")
+      .get(hashToken(token), Date.now()) as { email: string; password_hash: string | null } | undefined;
+    if (!row) throw new AppError("UNAUTHORIZED", "That sign-in link has expired or was already used");
+    db.prepare("UPDATE login_tokens SET used_at = ? WHERE token_hash = ?").run(Date.now(), hashToken(token));
+
+    const existing = findByEmail(row.email);
+    if (!existing) return insertUser(row.email, row.password_hash);
+    if (existing.email_verified_at === null) {
+      db.prepare("UPDATE users SET password_hash = NULL, email_verified_at = ? WHERE id = ?").run(Date.now(), existing.id);
+      db.prepare("DELETE FROM sessions WHERE user_id = ?").run(existing.id);
+      for (const table of ["scans", "preferences", "wishlist_items", "wishlist_collections"]) {
+        db.prepare(`DELETE FROM ${table} WHERE owner = ?`).run(existing.id);
+      }
+    }
+    return toUser(existing);
+  })();
+}
+
+// -------- Signing in --------
+// What the browser's visitor id owned moves to the account. Only a valid
+// visitor id is used (lib/session), never whatever the cookie says.
+export async function completeSignIn(user: User): Promise<void> {
+  const visitor = await existingVisitorId();
+  await startSession(user.id);
+  if (!visitor) return;
+  try {
+    transferScans(visitor, user.id);
+    transferPreferences(visitor, user.id);
+  } catch (e) {
+    console.warn("[auth] couldn't move visitor data to the account:", e); // still signed in
+  }
+}
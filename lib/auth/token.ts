@@ -0,0 +1,53 @@
+// lib/auth/token.ts
+// The session cookie: "<session id>.<expiry ms>.<HMAC>". The middleware checks
+// the signature and expiry without a database; route handlers then look the
+// session id up (lib/session) so signing out takes effect immediately.
+// Web Crypto only, so this runs in the edge runtime as well as in Node.
+
+export const SESSION_COOKIE = "os_session";
+// Set by the middleware for a verified session id; never trusted from clients
+export const SESSION_HEADER = "x-os-session";
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 30; // seconds
+
+// AUTH_SECRET signs session cookies. Outside production a fixed secret keeps
+// `next dev` working without setup; in production sessions are off until it's set.
+const DEV_SECRET = "outfit-scanner-dev-secret";
+
+export function authSecret(): string | undefined {
+  return process.env.AUTH_SECRET || (process.env.NODE_ENV === "production" ? undefined : DEV_SECRET);
+}
+
+const encoder = new TextEncoder();
+
+function base64url(bytes: ArrayBuffer): string {
+  let s = "";
+  for (const b of new Uint8Array(bytes)) s += String.fromCharCode(b);
+  return btoa(s).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function sign(payload: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+  ]);
+  return base64url(await crypto.subtle.sign("HMAC", key, encoder.encode(payload)));
+}
+
+// Compares every character so timing doesn't reveal how much of a signature matched
+function sameString(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+export async function signSession(sessionId: string, expiresAt: number, secret: string): Promise<string> {
+  const payload = `${sessionId}.${expiresAt}`;
+  return `${payload}.${await sign(payload, secret)}`;
+}
+
+// The session id, or undefined for a forged, malformed or expired cookie
+export async function verifySession(cookie: string, secret: string, now = Date.now()): Promise<string | undefined> {
+  const [sessionId, expires, signature] = cookie.split(".");
+  if (!sessionId || !expires || !signature || !(Number(expires) > now)) return undefined;
+  return sameString(signature, await sign(`${sessionId}.${expires}`, secret)) ? sessionId : undefined;
+}
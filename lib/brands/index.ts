@@ -0,0 +1,146 @@
+// lib/brands/index.ts
+import registry from "@/data/brands.json";
+import { editDistance } from "@/lib/text/edit-distance";
+import { containsPhrase, normalizeText } from "@/lib/text/normalize";
+
+// One brand in data/brands.json. All strings are matched after normalizeText.
+export type BrandEntry = {
+  name: string;        // display / canonical name
+  aliases: string[];   // whole-phrase matches in any text
+  logos: string[];     // Vision logo descriptions for this brand
+  ocr: string[];       // common OCR misreads
+  blocklist: string[]; // phrases that must never count as this brand
+};
+
+export type BrandSource = "logo" | "label" | "text" | "web" | "object";
+export type BrandMatchKind = "logo" | "alias" | "ocr" | "fuzzy";
+
+// A piece of Vision output that might name a brand
+export type BrandEvidence = { text: string; source: BrandSource; score?: number };
+
+export type BrandCandidate = {
+  name: string;
+  confidence: number; // 0..1
+  kind: BrandMatchKind;
+  term: string;       // the registry string that matched
+  source: BrandSource;
+};
+
+// How much each way of matching is trusted before the annotation score
+const KIND_WEIGHT: Record<BrandMatchKind, number> = { logo: 0.95, alias: 0.8, ocr: 0.65, fuzzy: 0.5 };
+const FUZZY_MIN_LENGTH = 5; // shorter aliases collide too easily
+const HANDLE_PREFIX_MIN_LENGTH = 4; // "#zarahaul" -> Zara, but "#hmm" isn't H&M
+export const MIN_BRAND_CONFIDENCE = 0.3;
+
+type CompiledBrand = {
+  name: string;
+  aliases: string[];
+  handles: string[]; // aliases with the spaces removed, for hashtags / @handles
+  logos: Set<string>;
+  ocr: string[];
+  blocklist: string[];
+};
+
+const compact = (s: string) => s.replace(/ /g, "");
+
+const compile = (entries: BrandEntry[]): CompiledBrand[] =>
+  entries.map((b) => {
+    const aliases = b.aliases.map(normalizeText).filter(Boolean);
+    return {
+      name: b.name,
+      aliases,
+      handles: aliases.map(compact),
+      logos: new Set(b.logos.map(normalizeText)),
+      ocr: b.ocr.map(normalizeText).filter(Boolean),
+      blocklist: b.blocklist.map(normalizeText).filter(Boolean),
+    };
+  });
+
+const BRANDS = compile(registry as BrandEntry[]);
+
+// Closest alias within 1 edit (2 for long names), compared against every
+// run of words of the same length in the text
+function fuzzyMatch(text: string, aliases: string[]): { term: string; similarity: number } | undefined {
+  const words = text.split(" ");
+  let best: { term: string; similarity: number } | undefined;
+  for (const alias of aliases) {
+    if (alias.length < FUZZY_MIN_LENGTH) continue;
+    const n = alias.split(" ").length;
+    const max = alias.length >= 8 ? 2 : 1;
+    for (let i = 0; i + n <= words.length; i++) {
+      const window = words.slice(i, i + n).join(" ");
+      const d = editDistance(window, alias, max);
+      if (d > max || d === 0) continue;
+      const similarity = 1 - d / alias.length;
+      if (!best || similarity > best.similarity) best = { term: alias, similarity };
+    }
+  }
+  return best;
+}
+
+function matchOne(brand: CompiledBrand, ev: BrandEvidence, text: string): BrandCandidate | undefined {
+  for (const bad of brand.blocklist) {
+    if (containsPhrase(text, bad)) text = ` ${text} `.replace(` ${bad} `, " ").trim();
+  }
+  if (!text) return undefined;
+
+  const hit = (kind: BrandMatchKind, term: string, factor = 1): BrandCandidate => ({
+    name: brand.name,
+    confidence: Math.min(1, KIND_WEIGHT[kind] * factor * (ev.score ?? 1)),
+    kind,
+    term,
+    source: ev.source,
+  });
+
+  if (ev.source === "logo" && brand.logos.has(text)) return hit("logo", text);
+  const alias = brand.aliases.find((a) => containsPhrase(text, a));
+  if (alias) return hit("alias", alias);
+  const ocr = brand.ocr.find((a) => containsPhrase(text, a));
+  if (ocr) return hit("ocr", ocr);
+  const fuzzy = fuzzyMatch(text, brand.aliases);
+  if (fuzzy) return hit("fuzzy", fuzzy.term, fuzzy.similarity);
+  return undefined;
+}
+
+// -------- Matching --------
+// Every (evidence, brand) match, unranked. Used by the attribute scorer,
+// which weighs each hit by where it came from.
+export function matchBrandHits(evidence: BrandEvidence[]): BrandCandidate[] {
+  const hits: BrandCandidate[] = [];
+  for (const ev of evidence) {
+    const text = normalizeText(ev.text);
+    if (!text) continue;
+    for (const brand of BRANDS) {
+      const c = matchOne(brand, ev, text);
+      if (c) hits.push(c);
+    }
+  }
+  return hits;
+}
+
+// Every brand mentioned anywhere in the evidence, best match per brand,
+// most confident first.
+export function matchBrands(evidence: BrandEvidence[]): BrandCandidate[] {
+  const best = new Map<string, BrandCandidate>();
+  for (const c of matchBrandHits(evidence)) {
+    if (c.confidence > (best.get(c.name)?.confidence ?? 0)) best.set(c.name, c);
+  }
+  return [...best.values()].sort((a, b) => b.confidence - a.confidence);
+}
+
+// Hashtags and handles run words together (#levisjeans, @zara.official). The
+// brand whose alias, written without spaces, is the token or starts it;
+// longest alias wins.
+export function matchBrandHandle(token: string): string | undefined {
+  const t = compact(normalizeText(token));
+  if (!t) return undefined;
+  let best: { name: string; length: number } | undefined;
+  for (const brand of BRANDS) {
+    if (brand.blocklist.some((b) => t.startsWith(compact(b)))) continue;
+    for (const h of brand.handles) {
+      const hit = t === h || (h.length >= HANDLE_PREFIX_MIN_LENGTH && t.startsWith(h));
+      if (hit && (!best || h.length > best.length)) best = { name: brand.name, length: h.length };
+    }
+  }
+  return best?.name;
+}
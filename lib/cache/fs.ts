@@ -0,0 +1,82 @@
+// lib/cache/fs.ts
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { isFresh, type CacheEntry, type CacheStore } from "./types";
+
+// Keys can be anything (queries, hashes), so files are named by their SHA-1
+const fileName = (key: string) => `${createHash("sha1").update(key).digest("hex")}.json`;
+
+async function readEntry(file: string): Promise<CacheEntry | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch {
+    return undefined; // missing, or half-written by a crashed process
+  }
+}
+
+// How often keys() rescans a namespace's directory, picking up entries other
+// processes wrote and deleting expired files
+const RESCAN_MS = 60 * 1000;
+
+// -------- Filesystem store --------
+// <dir>/<namespace>/<sha1(key)>.json holding { key, value, expiresAt }.
+// Expired files are removed when they're next read or by the periodic rescan.
+// keys() answers from an in-memory index (key -> expiresAt) per namespace
+// rather than reading every file on each lookup.
+export function createFsCacheStore(cacheDir: string): CacheStore {
+  const root = path.isAbsolute(cacheDir) ? cacheDir : path.join(process.cwd(), cacheDir);
+  const dirOf = (ns: string) => path.join(root, ns.replace(/[^\w-]/g, "_"));
+  const indexes = new Map<string, { keys: Map<string, number>; scannedAt: number }>();
+
+  async function rescan(ns: string) {
+    const dir = dirOf(ns);
+    const files = (await fs.readdir(dir).catch(() => [] as string[])).filter((f) => f.endsWith(".json"));
+    const now = Date.now();
+    const keys = new Map<string, number>();
+    for (const f of files) {
+      const file = path.join(dir, f);
+      const e = await readEntry(file);
+      if (e && isFresh(e, now)) keys.set(e.key, e.expiresAt);
+      else if (e) await fs.rm(file, { force: true });
+    }
+    const index = { keys, scannedAt: now };
+    indexes.set(ns, index);
+    return index;
+  }
+
+  return {
+    name: "fs",
+    async get<T>(ns: string, key: string) {
+      const file = path.join(dirOf(ns), fileName(key));
+      const e = await readEntry(file);
+      if (!e) return undefined;
+      if (!isFresh(e)) {
+        await fs.rm(file, { force: true });
+        return undefined;
+      }
+      return e.value as T;
+    },
+    async set(ns, key, value, ttlMs) {
+      const dir = dirOf(ns);
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename so readers never see a partial file
+      const file = path.join(dir, fileName(key));
+      const tmp = `${file}.${process.pid}.tmp`;
+      const entry: CacheEntry = { key, value, expiresAt: Date.now() + ttlMs };
+      await fs.writeFile(tmp, JSON.stringify(entry));
+      await fs.rename(tmp, file);
+      indexes.get(ns)?.keys.set(key, entry.expiresAt);
+    },
+    async delete(ns, key) {
+      await fs.rm(path.join(dirOf(ns), fileName(key)), { force: true });
+      indexes.get(ns)?.keys.delete(key);
+    },
+    async keys(ns) {
+      const now = Date.now();
+      const cached = indexes.get(ns);
+      const index = cached && now - cached.scannedAt < RESCAN_MS ? cached : await rescan(ns);
+      return [...index.keys].filter(([, expiresAt]) => isFresh({ expiresAt }, now)).map(([key]) => key);
+    },
+  };
+}
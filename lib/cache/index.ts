@@ -0,0 +1,50 @@
+// lib/cache/index.ts
+import { createFsCacheStore } from "./fs";
+import { createMemoryCacheStore } from "./memory";
+import { createSqliteCacheStore } from "./sqlite";
+import type { CacheStore } from "./types";
+
+export type { CacheStore } from "./types";
+
+// CACHE_STORE=memory (default) | fs | sqlite | off
+// CACHE_DIR=.cache          fs store root
+// CACHE_DB=.cache/cache.db  sqlite store file
+// CACHE_TTL_<LAYER>_HOURS   overrides a layer's TTL, e.g. CACHE_TTL_SEARCH_HOURS=6
+const DEFAULT_DIR = ".cache";
+const DEFAULT_DB = ".cache/cache.db";
+
+// Vision's reading of an image doesn't go stale; shop listings and prices do.
+// "search" holds a scanned image's results, "query" single provider queries.
+export type CacheLayer = "analysis" | "search" | "query";
+const DEFAULT_TTL_HOURS: Record<CacheLayer, number> = { analysis: 30 * 24, search: 24, query: 24 };
+
+let store: CacheStore | null | undefined;
+
+// undefined when caching is off
+export function getCacheStore(): CacheStore | undefined {
+  if (store !== undefined) return store ?? undefined;
+
+  const kind = (process.env.CACHE_STORE || "memory").toLowerCase();
+  switch (kind) {
+    case "memory":
+      store = createMemoryCacheStore();
+      break;
+    case "fs":
+      store = createFsCacheStore(process.env.CACHE_DIR || DEFAULT_DIR);
+      break;
+    case "sqlite":
+      store = createSqliteCacheStore(process.env.CACHE_DB || DEFAULT_DB);
+      break;
+    case "off":
+      store = null;
+      break;
+    default:
+      throw new Error(`Unknown CACHE_STORE "${kind}" (expected "memory", "fs", "sqlite" or "off")`);
+  }
+  return store ?? undefined;
+}
+
+export function cacheTtlMs(layer: CacheLayer): number {
+  const hours = Number(process.env[`CACHE_TTL_${layer.toUpperCase()}_HOURS`]);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS[layer]) * 60 * 60 * 1000;
+}
@@ -0,0 +1,41 @@
+// lib/cache/memory.ts
+import { isFresh, type CacheEntry, type CacheStore } from "./types";
+
+// Per process; the oldest entries go first once a namespace is full
+const MAX_ENTRIES_PER_NAMESPACE = 500;
+
+// -------- In-memory store --------
+export function createMemoryCacheStore(maxEntries = MAX_ENTRIES_PER_NAMESPACE): CacheStore {
+  const spaces = new Map<string, Map<string, CacheEntry>>();
+  const space = (ns: string) => {
+    let s = spaces.get(ns);
+    if (!s) spaces.set(ns, (s = new Map()));
+    return s;
+  };
+
+  return {
+    name: "memory",
+    async get<T>(ns: string, key: string) {
+      const e = space(ns).get(key);
+      if (!e) return undefined;
+      if (!isFresh(e)) {
+        space(ns).delete(key);
+        return undefined;
+      }
+      return structuredClone(e.value) as T; // callers may mutate what they get
+    },
+    async set(ns, key, value, ttlMs) {
+      const s = space(ns);
+      s.delete(key); // re-insert so it counts as newest
+      s.set(key, { key, value: structuredClone(value), expiresAt: Date.now() + ttlMs });
+      while (s.size > maxEntries) s.delete(s.keys().next().value!);
+    },
+    async delete(ns, key) {
+      space(ns).delete(key);
+    },
+    async keys(ns) {
+      const now = Date.now();
+      return [...space(ns).values()].filter((e) => isFresh(e, now)).map((e) => e.key);
+    },
+  };
+}
@@ -0,0 +1,58 @@
+// lib/cache/sqlite.ts
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import type { CacheStore } from "./types";
+
+// -------- SQLite store --------
+// One `cache` table for every namespace; expired rows are skipped on read and
+// swept whenever a row is written.
+export function createSqliteCacheStore(dbPath: string): CacheStore {
+  const file = path.isAbsolute(dbPath) ? dbPath : path.join(process.cwd(), dbPath);
+  let db: Database.Database | undefined;
+
+  const open = () => {
+    if (db) return db;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    db = new Database(file);
+    db.pragma("journal_mode = WAL");
+    db.exec(`CREATE TABLE IF NOT EXISTS cache (
+      namespace TEXT NOT NULL,
+      key TEXT NOT NULL,
+      value TEXT NOT NULL,
+      expires_at INTEGER NOT NULL,
+      PRIMARY KEY (namespace, key)
+    )`);
+    return db;
+  };
+
+  return {
+    name: "sqlite",
+    async get<T>(ns: string, key: string) {
+      const row = open()
+        .prepare("SELECT value FROM cache WHERE namespace = ? AND key = ? AND expires_at > ?")
+        .get(ns, key, Date.now()) as { value: string } | undefined;
+      return row ? (JSON.parse(row.value) as T) : undefined;
+    },
+    async set(ns, key, value, ttlMs) {
+      const now = Date.now();
+      const d = open();
+      d.prepare("DELETE FROM cache WHERE expires_at <= ?").run(now);
+      d.prepare("INSERT OR REPLACE INTO cache (namespace, key, value, expires_at) VALUES (?, ?, ?, ?)").run(
+        ns,
+        key,
+        JSON.stringify(value),
+        now + ttlMs
+      );
+    },
+    async delete(ns, key) {
+      open().prepare("DELETE FROM cache WHERE namespace = ? AND key = ?").run(ns, key);
+    },
+    async keys(ns) {
+      const rows = open()
+        .prepare("SELECT key FROM cache WHERE namespace = ? AND expires_at > ?")
+        .all(ns, Date.now()) as { key: string }[];
+      return rows.map((r) => r.key);
+    },
+  };
+}
@@ -0,0 +1,17 @@
+// lib/cache/types.ts
+
+// -------- Store contract --------
+// A namespaced key/value store with per-entry expiry. Values are JSON-serializable.
+// Namespaces keep cache layers apart ("analysis", "search", ...).
+export interface CacheStore {
+  readonly name: string;
+  get<T>(namespace: string, key: string): Promise<T | undefined>;
+  set<T>(namespace: string, key: string, value: T, ttlMs: number): Promise<void>;
+  delete(namespace: string, key: string): Promise<void>;
+  // Unexpired keys, for lookups that aren't exact (near-duplicate image hashes)
+  keys(namespace: string): Promise<string[]>;
+}
+
+export type CacheEntry<T = unknown> = { key: string; value: T; expiresAt: number };
+
+export const isFresh = (e: { expiresAt: number }, now = Date.now()) => e.expiresAt > now;
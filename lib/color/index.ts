@@ -0,0 +1,119 @@
+// lib/color/index.ts
+// Names Vision's dominant colors against the fashion palette in data/colors.json.
+// Matching is by CIEDE2000 in CIELAB, so "navy" vs "black" is judged the way a
+// person would rather than by RGB distance.
+import data from "@/data/colors.json";
+import { chroma, deltaE2000, hexToRgb, rgbToHex, rgbToLab, type Lab, type Rgb } from "./lab";
+
+export { deltaE2000, hexToRgb, rgbToHex, rgbToLab, type Lab, type Rgb } from "./lab";
+
+export type PaletteColor = {
+  name: string;
+  hex: string;
+  terms: string[]; // words that name this color in text ("maroon" -> burgundy)
+};
+
+// Vision imageProperties dominant color
+export type DominantColor = {
+  color?: { red?: number | null; green?: number | null; blue?: number | null } | null;
+  score?: number | null;
+  pixelFraction?: number | null;
+};
+
+export type RankedColor = {
+  name: string;
+  hex: string;        // the observed color (heaviest one if several share a name)
+  paletteHex: string;
+  share: number;      // fraction of the kept (non-skin, non-background) pixels, 0..1
+  deltaE: number;     // distance from the observed color to the palette entry
+};
+
+// Closer than this to a skin reference (and closer to it than to any palette
+// color) counts as skin. This also drops some camel/tan garments; tolerated.
+const SKIN_DELTA_E = 7;
+// Near-pure white/black covering this much of the image is background, UI or
+// letterboxing rather than clothing
+const BACKGROUND_FRACTION = 0.4;
+const BACKGROUND_CHROMA = 6;
+
+type Compiled<T> = T & { lab: Lab };
+
+export const PALETTE: PaletteColor[] = data.palette;
+const PALETTE_LAB: Compiled<PaletteColor>[] = PALETTE.map((p) => ({ ...p, lab: rgbToLab(hexToRgb(p.hex)) }));
+const SKIN_LAB: Lab[] = data.skin.map((hex) => rgbToLab(hexToRgb(hex)));
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// -------- Naming --------
+export function nearestPaletteColor(rgb: Rgb): { color: PaletteColor; deltaE: number } {
+  const lab = rgbToLab(rgb);
+  let best = PALETTE_LAB[0];
+  let bestDelta = Infinity;
+  for (const p of PALETTE_LAB) {
+    const d = deltaE2000(lab, p.lab);
+    if (d < bestDelta) {
+      bestDelta = d;
+      best = p;
+    }
+  }
+  return { color: { name: best.name, hex: best.hex, terms: best.terms }, deltaE: bestDelta };
+}
+
+export const paletteHex = (name: string) => PALETTE.find((p) => p.name === name)?.hex;
+
+function isSkin(lab: Lab, paletteDelta: number): boolean {
+  const skinDelta = Math.min(...SKIN_LAB.map((s) => deltaE2000(lab, s)));
+  return skinDelta < SKIN_DELTA_E && skinDelta < paletteDelta;
+}
+
+function isBackground(lab: Lab, fraction: number): boolean {
+  return fraction >= BACKGROUND_FRACTION && chroma(lab) < BACKGROUND_CHROMA && (lab.L > 95 || lab.L < 4);
+}
+
+// -------- Ranking --------
+// Names each dominant color, drops skin and background, and merges colors that
+// land on the same name. Weighted by pixel fraction (Vision's score when absent).
+// A garment crop has no background to speak of, and a white tee filling it
+// must not be mistaken for a wall, so callers can turn that check off.
+export function rankDominantColors(
+  colors: DominantColor[],
+  { dropBackground = true }: { dropBackground?: boolean } = {}
+): RankedColor[] {
+  const byName = new Map<string, RankedColor & { weight: number; heaviest: number }>();
+  let total = 0;
+
+  for (const c of colors) {
+    const rgb = { r: c.color?.red ?? 0, g: c.color?.green ?? 0, b: c.color?.blue ?? 0 };
+    const weight = c.pixelFraction ?? c.score ?? 0;
+    if (weight <= 0) continue;
+
+    const lab = rgbToLab(rgb);
+    const { color, deltaE } = nearestPaletteColor(rgb);
+    if (isSkin(lab, deltaE) || (dropBackground && isBackground(lab, weight))) continue;
+
+    total += weight;
+    const prev = byName.get(color.name);
+    if (!prev) {
+      byName.set(color.name, {
+        name: color.name,
+        hex: rgbToHex(rgb),
+        paletteHex: color.hex,
+        share: 0,
+        deltaE: round2(deltaE),
+        weight,
+        heaviest: weight,
+      });
+    } else {
+      prev.weight += weight;
+      if (weight > prev.heaviest) {
+        prev.heaviest = weight;
+        prev.hex = rgbToHex(rgb);
+        prev.deltaE = round2(deltaE);
+      }
+    }
+  }
+
+  return [...byName.values()]
+    .map(({ weight, heaviest, ...c }) => ({ ...c, share: total ? round2(weight / total) : 0 }))
+    .sort((a, b) => b.share - a.share);
+}
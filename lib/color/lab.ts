@@ -0,0 +1,103 @@
+// lib/color/lab.ts
+// sRGB <-> CIELAB (D65) and the CIEDE2000 color difference.
+
+export type Rgb = { r: number; g: number; b: number }; // 0..255
+export type Lab = { L: number; a: number; b: number };
+
+// -------- Conversions --------
+const toLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+};
+
+// D65 reference white
+const XN = 0.95047;
+const YN = 1.0;
+const ZN = 1.08883;
+
+const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (t * 24389) / 27 / 116 + 16 / 116);
+
+export function rgbToLab({ r, g, b }: Rgb): Lab {
+  const R = toLinear(r);
+  const G = toLinear(g);
+  const B = toLinear(b);
+  const x = (R * 0.4124564 + G * 0.3575761 + B * 0.1804375) / XN;
+  const y = (R * 0.2126729 + G * 0.7151522 + B * 0.072175) / YN;
+  const z = (R * 0.0193339 + G * 0.119192 + B * 0.9503041) / ZN;
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+  return { L: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+export function hexToRgb(hex: string): Rgb {
+  const n = parseInt(hex.replace(/^#/, ""), 16);
+  return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255 };
+}
+
+export function rgbToHex({ r, g, b }: Rgb): string {
+  const h = (c: number) => Math.max(0, Math.min(255, Math.round(c))).toString(16).padStart(2, "0");
+  return `#${h(r)}${h(g)}${h(b)}`;
+}
+
+export const chroma = (lab: Lab) => Math.hypot(lab.a, lab.b);
+
+// -------- CIEDE2000 --------
+const deg = (rad: number) => (rad * 180) / Math.PI;
+const rad = (d: number) => (d * Math.PI) / 180;
+
+// Sharma, Wu & Dalal (2005); kL = kC = kH = 1
+export function deltaE2000(x: Lab, y: Lab): number {
+  const C1 = chroma(x);
+  const C2 = chroma(y);
+  const Cbar7 = ((C1 + C2) / 2) ** 7;
+  const G = 0.5 * (1 - Math.sqrt(Cbar7 / (Cbar7 + 25 ** 7)));
+
+  const a1 = (1 + G) * x.a;
+  const a2 = (1 + G) * y.a;
+  const C1p = Math.hypot(a1, x.b);
+  const C2p = Math.hypot(a2, y.b);
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = deg(Math.atan2(b, a));
+    return h < 0 ? h + 360 : h;
+  };
+  const h1p = hue(x.b, a1);
+  const h2p = hue(y.b, a2);
+
+  const dLp = y.L - x.L;
+  const dCp = C2p - C1p;
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin(rad(dhp / 2));
+
+  const Lbp = (x.L + y.L) / 2;
+  const Cbp = (C1p + C2p) / 2;
+  let hbp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hbp /= 2;
+    else hbp = h1p + h2p < 360 ? (hbp + 360) / 2 : (hbp - 360) / 2;
+  }
+
+  const T =
+    1 -
+    0.17 * Math.cos(rad(hbp - 30)) +
+    0.24 * Math.cos(rad(2 * hbp)) +
+    0.32 * Math.cos(rad(3 * hbp + 6)) -
+    0.2 * Math.cos(rad(4 * hbp - 63));
+  const dTheta = 30 * Math.exp(-(((hbp - 275) / 25) ** 2));
+  const Cbp7 = Cbp ** 7;
+  const Rc = 2 * Math.sqrt(Cbp7 / (Cbp7 + 25 ** 7));
+  const Sl = 1 + (0.015 * (Lbp - 50) ** 2) / Math.sqrt(20 + (Lbp - 50) ** 2);
+  const Sc = 1 + 0.045 * Cbp;
+  const Sh = 1 + 0.015 * Cbp * T;
+  const Rt = -Math.sin(rad(2 * dTheta)) * Rc;
+
+  return Math.sqrt(
+    (dLp / Sl) ** 2 + (dCp / Sc) ** 2 + (dHp / Sh) ** 2 + Rt * (dCp / Sc) * (dHp / Sh)
+  );
+}
@@ -0,0 +1,97 @@
+// lib/color/region.ts
+// Local stand-in for Vision imageProperties on a garment crop: k-means over the
+// crop's central pixels in CIELAB. Keeping to the middle of the box leaves out
+// most of the wall/floor around the garment; what skin is left is dropped
+// later by rankDominantColors.
+import sharp from "sharp";
+import { uprightSize } from "@/lib/image/dimensions";
+import type { DominantColor } from "./index";
+import { rgbToLab, type Lab, type Rgb } from "./lab";
+
+const SAMPLE_SIZE = 48;  // pixels per side after downscaling
+const INNER_X = 0.7;     // keep the central 70% of the width...
+const INNER_Y = 0.8;     // ...and 80% of the height
+const CLUSTERS = 5;
+const ITERATIONS = 10;
+
+type Pixel = { rgb: Rgb; lab: Lab };
+
+const dist2 = (x: Lab, y: Lab) => (x.L - y.L) ** 2 + (x.a - y.a) ** 2 + (x.b - y.b) ** 2;
+
+export async function regionColors(crop: Buffer): Promise<DominantColor[]> {
+  const img = sharp(crop).rotate();
+  const { width, height } = uprightSize(await img.metadata());
+  if (!width || !height) return [];
+
+  const w = Math.max(1, Math.round(width * INNER_X));
+  const h = Math.max(1, Math.round(height * INNER_Y));
+  const { data, info } = await img
+    .extract({ left: Math.floor((width - w) / 2), top: Math.floor((height - h) / 2), width: w, height: h })
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: "fill" })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixels: Pixel[] = [];
+  for (let i = 0; i < data.length; i += info.channels) {
+    const rgb = { r: data[i], g: data[i + 1], b: data[i + 2] };
+    pixels.push({ rgb, lab: rgbToLab(rgb) });
+  }
+  return cluster(pixels);
+}
+
+// Plain k-means, seeded deterministically: the centre pixel (most likely the
+// garment), then repeatedly the pixel farthest from every seed so far
+function cluster(pixels: Pixel[]): DominantColor[] {
+  if (!pixels.length) return [];
+  const centre = (SAMPLE_SIZE / 2) * SAMPLE_SIZE + SAMPLE_SIZE / 2;
+  const centroids: Lab[] = [pixels[Math.min(centre, pixels.length - 1)].lab];
+  while (centroids.length < CLUSTERS) {
+    let far = pixels[0];
+    let farDist = -1;
+    for (const p of pixels) {
+      const d = Math.min(...centroids.map((c) => dist2(p.lab, c)));
+      if (d > farDist) {
+        farDist = d;
+        far = p;
+      }
+    }
+    if (farDist <= 0) break; // fewer distinct colors than clusters
+    centroids.push(far.lab);
+  }
+
+  let assignment = new Array<number>(pixels.length).fill(0);
+  for (let iter = 0; iter < ITERATIONS; iter++) {
+    assignment = pixels.map((p) => {
+      let best = 0;
+      for (let k = 1; k < centroids.length; k++) {
+        if (dist2(p.lab, centroids[k]) < dist2(p.lab, centroids[best])) best = k;
+      }
+      return best;
+    });
+    for (let k = 0; k < centroids.length; k++) {
+      const members = pixels.filter((_, i) => assignment[i] === k);
+      if (!members.length) continue;
+      centroids[k] = {
+        L: members.reduce((s, p) => s + p.lab.L, 0) / members.length,
+        a: members.reduce((s, p) => s + p.lab.a, 0) / members.length,
+        b: members.reduce((s, p) => s + p.lab.b, 0) / members.length,
+      };
+    }
+  }
+
+  // Report each cluster as its mean RGB, like Vision does
+  const out: DominantColor[] = [];
+  for (let k = 0; k < centroids.length; k++) {
+    const members = pixels.filter((_, i) => assignment[i] === k);
+    if (!members.length) continue;
+    const mean = (pick: (rgb: Rgb) => number) => Math.round(members.reduce((s, p) => s + pick(p.rgb), 0) / members.length);
+    const fraction = members.length / pixels.length;
+    out.push({
+      color: { red: mean((c) => c.r), green: mean((c) => c.g), blue: mean((c) => c.b) },
+      score: fraction,
+      pixelFraction: fraction,
+    });
+  }
+  return out.sort((a, b) => (b.pixelFraction ?? 0) - (a.pixelFraction ?? 0));
+}
@@ -0,0 +1,39 @@
+// lib/db/index.ts
+// The app's own SQLite database: accounts and sessions, and what belongs to
+// a visitor or user (scan history, wishlists, preferences). Opened lazily;
+// pending migrations run on open.
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { MIGRATIONS } from "./migrations";
+
+// APP_DB=.data/app.db
+const DEFAULT_DB = ".data/app.db";
+
+let db: Database.Database | undefined;
+
+export function getDb(): Database.Database {
+  if (db) return db;
+
+  const file = process.env.APP_DB || DEFAULT_DB;
+  const resolved = path.isAbsolute(file) ? file : path.join(process.cwd(), file);
+  fs.mkdirSync(path.dirname(resolved), { recursive: true });
+
+  db = new Database(resolved);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  migrate(db);
+  return db;
+}
+
+// -------- Migrations --------
+// `user_version` holds how many migrations have run; each runs in a transaction
+function migrate(d: Database.Database) {
+  const done = d.pragma("user_version", { simple: true }) as number;
+  for (let i = done; i < MIGRATIONS.length; i++) {
+    d.transaction(() => {
+      d.exec(MIGRATIONS[i]);
+      d.pragma(`user_version = ${i + 1}`);
+    })();
+  }
+}
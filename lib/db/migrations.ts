@@ -0,0 +1,75 @@
+// lib/db/migrations.ts
+// Append only: a migration that has shipped is never edited, only followed by
+// another one.
+export const MIGRATIONS: string[] = [
+  // 1: scan history
+  `CREATE TABLE scans (
+    id TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    source TEXT NOT NULL,
+    tiktok_url TEXT,
+    thumbnail TEXT,
+    garments TEXT NOT NULL,
+    frames TEXT
+  );
+  CREATE INDEX scans_owner_created ON scans (owner, created_at DESC);`,
+
+  // 2: wishlists of signed-in users (guests keep theirs in localStorage)
+  `CREATE TABLE wishlist_collections (
+    id TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    name TEXT NOT NULL COLLATE NOCASE,
+    created_at INTEGER NOT NULL,
+    UNIQUE (owner, name)
+  );
+  CREATE TABLE wishlist_items (
+    owner TEXT NOT NULL,
+    id TEXT NOT NULL,
+    item TEXT NOT NULL,
+    collection_id TEXT REFERENCES wishlist_collections (id) ON DELETE SET NULL,
+    added_at INTEGER NOT NULL,
+    PRIMARY KEY (owner, id)
+  );`,
+
+  // 3: accounts, their sessions, magic-link tokens and per-owner preferences
+  `CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE INDEX sessions_user ON sessions (user_id);
+  CREATE TABLE login_tokens (
+    token_hash TEXT PRIMARY KEY,
+    email TEXT NOT NULL COLLATE NOCASE,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    used_at INTEGER
+  );
+  CREATE INDEX login_tokens_email ON login_tokens (email, created_at);
+  CREATE TABLE preferences (
+    owner TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );`,
+
+  // 4: visitor owners get their own namespace, apart from user ids
+  `UPDATE scans SET owner = 'visitor:' || owner WHERE owner NOT IN (SELECT id FROM users);
+  UPDATE preferences SET owner = 'visitor:' || owner WHERE owner NOT IN (SELECT id FROM users);`,
+
+  // 5: whether an account has proven it owns its email (by redeeming a link);
+  // accounts that only ever used links have
+  `ALTER TABLE users ADD COLUMN email_verified_at INTEGER;
+  UPDATE users SET email_verified_at = created_at WHERE password_hash IS NULL;`,
+
+  // 6: a sign-up waits in its confirmation link, with the password it will get
+  `ALTER TABLE login_tokens ADD COLUMN password_hash TEXT;`,
+];
@@ -0,0 +1,146 @@
+// lib/history/index.ts
+// Past scans per owner, stored in the app database with their results so they
+// can be reopened without scanning again.
+import { v4 as uuid } from "uuid";
+import { getDb } from "@/lib/db";
+import { getPreferences } from "@/lib/preferences";
+import { searchGarments } from "@/lib/scan";
+import type { ScanRecord, ScanSource, ScanSummary } from "@/type/history";
+import type { GarmentResult } from "@/type/result";
+
+const DEFAULT_LIST_LIMIT = 50;
+
+type ScanRow = {
+  id: string;
+  owner: string;
+  created_at: number;
+  updated_at: number;
+  source: ScanSource;
+  tiktok_url: string | null;
+  thumbnail: string | null;
+  garments: string;
+  frames: string | null;
+};
+
+export type NewScan = Omit<ScanRecord, "id" | "createdAt" | "updatedAt">;
+
+function toRecord(row: ScanRow): ScanRecord {
+  return {
+    id: row.id,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+    source: row.source,
+    tiktokUrl: row.tiktok_url ?? undefined,
+    thumbnail: row.thumbnail ?? undefined,
+    garments: JSON.parse(row.garments),
+    frames: row.frames ? JSON.parse(row.frames) : undefined,
+  };
+}
+
+// Every garment of the scan, across frames for video scans
+const allGarments = (scan: Pick<ScanRecord, "garments" | "frames">): GarmentResult[] =>
+  scan.frames?.length ? scan.frames.flatMap((f) => f.garments) : scan.garments;
+
+function toSummary(record: ScanRecord): ScanSummary {
+  const garments = allGarments(record);
+  const { id, createdAt, updatedAt, source, tiktokUrl, thumbnail } = record;
+  return {
+    id,
+    createdAt,
+    updatedAt,
+    source,
+    tiktokUrl,
+    thumbnail,
+    labels: [...new Set(garments.map((g) => g.attributes.category ?? g.label.toLowerCase()))],
+    matches: garments.reduce((n, g) => n + g.matches.length, 0),
+  };
+}
+
+// -------- Repository --------
+export function saveScan(owner: string, scan: NewScan): ScanRecord {
+  const id = uuid();
+  const now = Date.now();
+  getDb()
+    .prepare(
+      `INSERT INTO scans (id, owner, created_at, updated_at, source, tiktok_url, thumbnail, garments, frames)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      id,
+      owner,
+      now,
+      now,
+      scan.source,
+      scan.tiktokUrl ?? null,
+      scan.thumbnail ?? null,
+      JSON.stringify(scan.garments),
+      scan.frames ? JSON.stringify(scan.frames) : null
+    );
+  return getScan(owner, id)!;
+}
+
+export function listScans(owner: string, limit = DEFAULT_LIST_LIMIT): ScanSummary[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM scans WHERE owner = ? ORDER BY created_at DESC LIMIT ?")
+    .all(owner, limit) as ScanRow[];
+  return rows.map((r) => toSummary(toRecord(r)));
+}
+
+// Someone else's scan reads as missing
+export function getScan(owner: string, id: string): ScanRecord | undefined {
+  const row = getDb().prepare("SELECT * FROM scans WHERE id = ? AND owner = ?").get(id, owner) as ScanRow | undefined;
+  return row ? toRecord(row) : undefined;
+}
+
+export function deleteScan(owner: string, id: string): boolean {
+  return getDb().prepare("DELETE FROM scans WHERE id = ? AND owner = ?").run(id, owner).changes > 0;
+}
+
+// On sign-in a visitor's scans become the account's
+export function transferScans(from: string, to: string): number {
+  return getDb().prepare("UPDATE scans SET owner = ? WHERE owner = ?").run(to, from).changes;
+}
+
+function updateResults(owner: string, id: string, scan: Pick<ScanRecord, "garments" | "frames">) {
+  getDb()
+    .prepare("UPDATE scans SET garments = ?, frames = ?, updated_at = ? WHERE id = ? AND owner = ?")
+    .run(JSON.stringify(scan.garments), scan.frames ? JSON.stringify(scan.frames) : null, Date.now(), id, owner);
+}
+
+// Saving history is a side effect of scanning; a database problem is logged
+// rather than failing the scan
+export function recordScan(owner: string, scan: NewScan): string | undefined {
+  try {
+    return saveScan(owner, scan).id;
+  } catch (e) {
+    console.warn("[history] couldn't save scan:", e);
+    return undefined;
+  }
+}
+
+// -------- Re-running --------
+// Searches again with each garment's stored attributes (no Vision calls) and
+// the owner's current preferences, and stores the fresh results. Garments
+// whose search fails keep their old matches.
+export async function rerunScan(
+  owner: string,
+  id: string
+): Promise<{ scan: ScanRecord; warnings: string[] } | undefined> {
+  const scan = getScan(owner, id);
+  if (!scan) return undefined;
+
+  const preferences = getPreferences(owner);
+  const warnings: string[] = [];
+  const refresh = async (garments: GarmentResult[]) => {
+    const { searched, failures } = await searchGarments(garments, preferences);
+    warnings.push(...failures);
+    return garments.map((g) => ({ ...g, matches: searched.matches[g.id] ?? g.matches }));
+  };
+
+  const garments = await refresh(scan.garments);
+  const frames = scan.frames
+    ? await Promise.all(scan.frames.map(async (f) => ({ ...f, garments: await refresh(f.garments) })))
+    : undefined;
+  updateResults(owner, id, { garments, frames });
+  return { scan: getScan(owner, id)!, warnings: [...new Set(warnings)] };
+}
@@ -0,0 +1,12 @@
+// lib/image/dimensions.ts
+import type { Metadata } from "sharp";
+
+// Width and height once `.rotate()` has applied the EXIF orientation:
+// orientations 5-8 swap the axes. 0 when sharp couldn't read them.
+export function uprightSize(meta: Metadata): { width: number; height: number } {
+  const swap = (meta.orientation ?? 1) >= 5;
+  return {
+    width: (swap ? meta.height : meta.width) ?? 0,
+    height: (swap ? meta.width : meta.height) ?? 0,
+  };
+}
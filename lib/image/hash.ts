@@ -0,0 +1,44 @@
+// lib/image/hash.ts
+import sharp from "sharp";
+
+// -------- Perceptual hash --------
+// Difference hash (dHash): shrink to (size+1)x size grayscale and record
+// whether each pixel is brighter than its right neighbour, size² bits in all
+// (64 by default). Visually similar images differ in only a few bits, unlike
+// a byte hash; a bigger size tells apart images that only look alike coarsely.
+export async function dHash(image: Buffer, size = 8): Promise<string> {
+  const w = size + 1;
+  const px = await sharp(image)
+    .rotate()
+    .grayscale()
+    .resize(w, size, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  // 4 bits per hex digit, row by row
+  let hex = "";
+  let nibble = 0;
+  for (let i = 0; i < size * size; i++) {
+    const y = Math.floor(i / size);
+    const x = i % size;
+    nibble = (nibble << 1) | (px[y * w + x] > px[y * w + x + 1] ? 1 : 0);
+    if (i % 4 === 3) {
+      hex += nibble.toString(16);
+      nibble = 0;
+    }
+  }
+  return hex;
+}
+
+// Number of differing bits between two dHash strings of the same size (0 = identical)
+export function hammingDistance(a: string, b: string): number {
+  let n = 0;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    let x = parseInt(a[i] ?? "0", 16) ^ parseInt(b[i] ?? "0", 16);
+    while (x) {
+      n += x & 1;
+      x >>= 1;
+    }
+  }
+  return n;
+}
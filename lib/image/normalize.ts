@@ -0,0 +1,151 @@
+// lib/image/normalize.ts
+// Every uploaded image goes through here before Vision sees it: the real
+// format is read from the bytes (not the filename or MIME type), HEIC/AVIF/WebP
+// and friends become JPEG, EXIF orientation is applied and then dropped along
+// with the rest of the metadata (GPS included), and big photos are scaled down.
+import convertHeic from "heic-convert";
+import sharp from "sharp";
+import { AppError } from "@/lib/api/errors";
+import { MAX_IMAGE_PIXELS, MAX_IMAGE_SIDE } from "@/lib/api/limits";
+
+export type ImageFormat = "jpeg" | "png" | "gif" | "webp" | "heic" | "avif" | "tiff" | "bmp";
+
+export type NormalizedImage = {
+  image: Buffer; // JPEG
+  format: ImageFormat; // what was uploaded
+  width: number;
+  height: number;
+};
+
+export const MAX_IMAGE_DIMENSION = 2048; // Vision gains nothing from more
+const JPEG_QUALITY = 88;
+
+// Thrown for anything that isn't an image we can decode
+export class UnsupportedImageError extends AppError {
+  constructor(message = "That file isn't a supported image (JPEG, PNG, WebP, HEIC, AVIF or GIF)") {
+    super("UNSUPPORTED_FORMAT", message);
+    this.name = "UnsupportedImageError";
+  }
+}
+
+// -------- Format sniffing --------
+const startsWith = (buf: Buffer, bytes: number[], offset = 0) =>
+  buf.length >= offset + bytes.length && bytes.every((b, i) => buf[offset + i] === b);
+
+const ascii = (buf: Buffer, start: number, end: number) => buf.subarray(start, end).toString("latin1");
+
+// ISO-BMFF brands (bytes 8..12 of the `ftyp` box)
+const HEIC_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"]);
+const AVIF_BRANDS = new Set(["avif", "avis"]);
+
+export function detectImageFormat(buf: Buffer): ImageFormat | undefined {
+  if (startsWith(buf, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (startsWith(buf, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png";
+  if (ascii(buf, 0, 4) === "GIF8") return "gif";
+  if (ascii(buf, 0, 4) === "RIFF" && ascii(buf, 8, 12) === "WEBP") return "webp";
+  if (startsWith(buf, [0x49, 0x49, 0x2a, 0x00]) || startsWith(buf, [0x4d, 0x4d, 0x00, 0x2a])) return "tiff";
+  if (ascii(buf, 0, 2) === "BM") return "bmp";
+  if (ascii(buf, 4, 8) === "ftyp") {
+    const brand = ascii(buf, 8, 12);
+    // mif1 is shared by HEIC and AVIF; the compatible brands tell them apart
+    const compatible = ascii(buf, 16, Math.min(buf.length, buf.readUInt32BE(0)));
+    if (AVIF_BRANDS.has(brand) || (brand === "mif1" && /avif|avis/.test(compatible))) return "avif";
+    if (HEIC_BRANDS.has(brand)) return "heic";
+  }
+  return undefined;
+}
+
+// -------- HEIC dimensions --------
+// heic-convert decodes the whole image, so a HEIC's size has to be known
+// before it's handed over. Each image item's size is in an `ispe` property
+// (meta > iprp > ipco); the largest one is the full image (grid images list
+// their tiles too). Undefined when the boxes aren't there.
+type Box = { type: string; start: number; end: number }; // start = first byte after the header
+
+function* boxes(buf: Buffer, start: number, end: number): Generator<Box> {
+  let at = start;
+  while (at + 8 <= end) {
+    let size = buf.readUInt32BE(at);
+    const type = ascii(buf, at + 4, at + 8);
+    let header = 8;
+    if (size === 1) {
+      if (at + 16 > end) return;
+      size = Number(buf.readBigUInt64BE(at + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - at;
+    }
+    if (size < header || at + size > end) return;
+    yield { type, start: at + header, end: at + size };
+    at += size;
+  }
+}
+
+const child = (buf: Buffer, parent: Box, type: string, skip = 0) => {
+  for (const b of boxes(buf, parent.start + skip, parent.end)) if (b.type === type) return b;
+  return undefined;
+};
+
+function heicDimensions(buf: Buffer): { width: number; height: number } | undefined {
+  const meta = child(buf, { type: "", start: 0, end: buf.length }, "meta");
+  const iprp = meta && child(buf, meta, "iprp", 4); // meta is a full box: version + flags first
+  const ipco = iprp && child(buf, iprp, "ipco");
+  if (!ipco) return undefined;
+
+  let found: { width: number; height: number } | undefined;
+  for (const b of boxes(buf, ipco.start, ipco.end)) {
+    if (b.type !== "ispe" || b.end - b.start < 12) continue;
+    const width = buf.readUInt32BE(b.start + 4); // after version + flags
+    const height = buf.readUInt32BE(b.start + 8);
+    if (!found || width * height > found.width * found.height) found = { width, height };
+  }
+  return found;
+}
+
+function checkDimensions(width: number, height: number) {
+  if (Math.max(width, height) > MAX_IMAGE_SIDE || width * height > MAX_IMAGE_PIXELS) {
+    throw new AppError("FILE_TOO_LARGE", `Image is too large (${width}×${height}; max ${MAX_IMAGE_SIDE} px per side)`);
+  }
+}
+
+// -------- Normalization --------
+export async function normalizeImage(
+  input: Buffer,
+  { maxDimension = MAX_IMAGE_DIMENSION }: { maxDimension?: number } = {}
+): Promise<NormalizedImage> {
+  const format = detectImageFormat(input);
+  if (!format || format === "bmp") throw new UnsupportedImageError(); // libvips can't read BMP
+
+  // sharp's prebuilt libvips decodes AVIF but not HEVC-coded HEIC, which is
+  // converted first; its size is checked from the boxes before that
+  if (format === "heic") {
+    const size = heicDimensions(input);
+    if (!size) throw new UnsupportedImageError("Couldn't read the size of that HEIC image");
+    checkDimensions(size.width, size.height);
+  }
+  const decodable = format === "heic"
+    ? await convertHeic({ buffer: input, format: "JPEG", quality: 1 }).then(Buffer.from, (err) => {
+        throw new UnsupportedImageError(`Couldn't decode that HEIC image: ${err?.message ?? "unknown error"}`);
+      })
+    : input;
+
+  // Dimensions come from the header, so a decompression bomb is refused
+  // before it is decoded (HEIC was checked above, before conversion)
+  const meta = await sharp(decodable).metadata().catch(() => {
+    throw new UnsupportedImageError(`Couldn't read that ${format.toUpperCase()} image`);
+  });
+  checkDimensions(meta.width ?? 0, meta.height ?? 0);
+
+  try {
+    const { data, info } = await sharp(decodable, { animated: false, limitInputPixels: MAX_IMAGE_PIXELS })
+      .rotate() // bake in EXIF orientation; metadata isn't copied to the output
+      .resize({ width: maxDimension, height: maxDimension, fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" }) // transparent PNG/WebP -> white, not black
+      .jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+
+    return { image: data, format, width: info.width, height: info.height };
+  } catch (err: any) {
+    throw new UnsupportedImageError(`Couldn't decode that ${format.toUpperCase()} image: ${err?.message ?? "unknown error"}`);
+  }
+}
@@ -0,0 +1,41 @@
+// lib/mail/index.ts
+import { createOutboxMailer } from "./outbox";
+import { createSmtpMailer } from "./smtp";
+import type { Mailer } from "./types";
+
+export type { MailMessage, Mailer } from "./types";
+
+// MAIL_TRANSPORT=outbox (default) | smtp
+// MAIL_FROM="Outfit Scanner <no-reply@localhost>"
+// MAIL_OUTBOX_DIR=.data/outbox   where the outbox writes .eml files
+// SMTP_HOST=localhost / SMTP_PORT=1025 / SMTP_SECURE=1 / SMTP_USER / SMTP_PASS
+const DEFAULT_FROM = "Outfit Scanner <no-reply@localhost>";
+const DEFAULT_OUTBOX_DIR = ".data/outbox";
+const DEFAULT_SMTP_PORT = 1025; // Mailpit / MailHog
+
+let mailer: Mailer | undefined;
+
+export function getMailer(): Mailer {
+  if (mailer) return mailer;
+
+  const kind = (process.env.MAIL_TRANSPORT || "outbox").toLowerCase();
+  const from = process.env.MAIL_FROM || DEFAULT_FROM;
+  switch (kind) {
+    case "outbox":
+      mailer = createOutboxMailer(process.env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR, from);
+      break;
+    case "smtp":
+      mailer = createSmtpMailer({
+        host: process.env.SMTP_HOST || "localhost",
+        port: Number(process.env.SMTP_PORT) || DEFAULT_SMTP_PORT,
+        secure: process.env.SMTP_SECURE === "1",
+        user: process.env.SMTP_USER || undefined,
+        pass: process.env.SMTP_PASS || undefined,
+        from,
+      });
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}" (expected "outbox" or "smtp")`);
+  }
+  return mailer;
+}
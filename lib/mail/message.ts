@@ -0,0 +1,31 @@
+// lib/mail/message.ts
+// Renders a plain-text message as an RFC 5322 document. The body is base64 so
+// no line can be mistaken for the end of an SMTP DATA section.
+import { randomUUID } from "node:crypto";
+import type { MailMessage } from "./types";
+
+// Non-ASCII subjects need an encoded-word
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+const wrap = (s: string, width = 76) => s.match(new RegExp(`.{1,${width}}`, "g"))?.join("\r\n") ?? "";
+
+export function renderMessage(from: string, message: MailMessage): string {
+  const domain = from.split("@")[1]?.replace(/>$/, "") || "localhost";
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrap(Buffer.from(message.text).toString("base64")),
+    "",
+  ].join("\r\n");
+}
+
+// The bare address from "Name <a@b.c>" or "a@b.c"
+export const addressOf = (from: string) => from.match(/<([^>]+)>/)?.[1] ?? from.trim();
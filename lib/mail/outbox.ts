@@ -0,0 +1,21 @@
+// lib/mail/outbox.ts
+// Development stand-in for an SMTP relay: each message is written to the
+// outbox directory as an .eml file (open it in any mail client) and its text
+// is logged, so sign-in links can be followed straight from the terminal.
+import fs from "node:fs";
+import path from "node:path";
+import { renderMessage } from "./message";
+import type { MailMessage, Mailer } from "./types";
+
+export function createOutboxMailer(dir: string, from: string): Mailer {
+  const resolved = path.isAbsolute(dir) ? dir : path.join(process.cwd(), dir);
+  return {
+    name: "outbox",
+    async send(message: MailMessage) {
+      await fs.promises.mkdir(resolved, { recursive: true });
+      const file = path.join(resolved, `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to}.eml`);
+      await fs.promises.writeFile(file, renderMessage(from, message));
+      console.log(`[mail] to ${message.to}: ${message.subject}\n${message.text}\n(saved to ${file})`);
+    },
+  };
+}
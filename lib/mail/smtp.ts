@@ -0,0 +1,94 @@
+// lib/mail/smtp.ts
+// Just enough SMTP to hand a message to a relay: EHLO, optional AUTH PLAIN,
+// MAIL/RCPT/DATA. Plain TCP for local catchers (Mailpit, MailHog on :1025) or
+// implicit TLS (port 465) for a real relay; STARTTLS isn't supported.
+import net from "node:net";
+import tls from "node:tls";
+import { addressOf, renderMessage } from "./message";
+import type { MailMessage, Mailer } from "./types";
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS
+  user?: string;
+  pass?: string;
+  from: string;
+};
+
+const TIMEOUT_MS = 15_000;
+
+// Replies are read whole: "250-first\r\n250 last\r\n" is one reply
+function openConnection(opts: SmtpOptions) {
+  const socket = opts.secure
+    ? tls.connect({ host: opts.host, port: opts.port, servername: opts.host })
+    : net.connect({ host: opts.host, port: opts.port });
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error("SMTP server timed out")));
+
+  let buffer = "";
+  let waiting: { resolve: (r: { code: number; text: string }) => void; reject: (e: Error) => void } | undefined;
+  let failure: Error | undefined;
+
+  const flush = () => {
+    const end = buffer.match(/(?:^|\r\n)(\d{3})(?: [^\r\n]*)?\r\n/);
+    if (!end || !waiting || end.index === undefined) return;
+    const length = end.index + end[0].length;
+    const text = buffer.slice(0, length).trim();
+    buffer = buffer.slice(length);
+    const w = waiting;
+    waiting = undefined;
+    w.resolve({ code: Number(end[1]), text });
+  };
+
+  socket.setEncoding("utf8");
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    flush();
+  });
+  socket.on("error", (e) => {
+    failure = e;
+    waiting?.reject(e);
+  });
+  socket.on("close", () => waiting?.reject(failure ?? new Error("SMTP connection closed")));
+
+  const reply = (expect: number) =>
+    new Promise<{ code: number; text: string }>((resolve, reject) => {
+      if (failure) return reject(failure);
+      waiting = { resolve, reject };
+      flush();
+    }).then((r) => {
+      if (Math.floor(r.code / 100) !== Math.floor(expect / 100)) throw new Error(`SMTP: ${r.text}`);
+      return r;
+    });
+
+  const command = (line: string, expect: number) => {
+    socket.write(`${line}\r\n`);
+    return reply(expect);
+  };
+
+  return { reply, command, close: () => socket.end() };
+}
+
+export function createSmtpMailer(opts: SmtpOptions): Mailer {
+  return {
+    name: "smtp",
+    async send(message: MailMessage) {
+      const smtp = openConnection(opts);
+      try {
+        await smtp.reply(220);
+        await smtp.command(`EHLO ${addressOf(opts.from).split("@")[1] || "localhost"}`, 250);
+        if (opts.user) {
+          const plain = Buffer.from(`\0${opts.user}\0${opts.pass ?? ""}`).toString("base64");
+          await smtp.command(`AUTH PLAIN ${plain}`, 235);
+        }
+        await smtp.command(`MAIL FROM:<${addressOf(opts.from)}>`, 250);
+        await smtp.command(`RCPT TO:<${message.to}>`, 250);
+        await smtp.command("DATA", 354);
+        await smtp.command(`${renderMessage(opts.from, message)}\r\n.`, 250);
+        await smtp.command("QUIT", 221).catch(() => undefined); // delivered either way
+      } finally {
+        smtp.close();
+      }
+    },
+  };
+}
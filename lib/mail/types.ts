@@ -0,0 +1,13 @@
+// lib/mail/types.ts
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// -------- Transport contract --------
+export interface Mailer {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,114 @@
+// lib/net/public.ts
+// Fetching URLs that came from third parties (shopping results): only http(s)
+// to hosts that resolve to public addresses, every redirect hop re-checked,
+// with a timeout and a cap on how many bytes are read.
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+const PRIVATE = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3], // multicast and reserved
+] as const) {
+  PRIVATE.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  PRIVATE.addSubnet(net, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1]; // IPv4-mapped IPv6
+  if (mapped) return isPublicAddress(mapped);
+  const family = isIP(address);
+  if (!family) return false;
+  return !PRIVATE.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Every address the host resolves to must be public. (A host that changes its
+// answer between this lookup and the fetch isn't caught.)
+async function isPublicUrl(url: URL): Promise<boolean> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") return false;
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host)) return isPublicAddress(host);
+  try {
+    const addresses = await lookup(host, { all: true });
+    return addresses.length > 0 && addresses.every((a) => isPublicAddress(a.address));
+  } catch {
+    return false;
+  }
+}
+
+// Reads at most `maxBytes`; undefined when the body is bigger
+export async function readCapped(res: Response, maxBytes: number): Promise<Buffer | undefined> {
+  if (Number(res.headers.get("content-length")) > maxBytes) return undefined;
+  if (!res.body) return Buffer.alloc(0);
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      return undefined;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+export type PublicFetchOptions = {
+  timeoutMs: number;
+  maxBytes: number;
+  maxRedirects?: number;
+};
+
+// The body, or undefined for a refused URL, a failed request or an oversize body
+export async function fetchPublic(
+  input: string,
+  { timeoutMs, maxBytes, maxRedirects = 3 }: PublicFetchOptions
+): Promise<Buffer | undefined> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    return undefined;
+  }
+
+  try {
+    for (let hop = 0; hop <= maxRedirects; hop++) {
+      if (!(await isPublicUrl(url))) return undefined;
+      const res = await fetch(url, { signal, redirect: "manual" });
+      const location = res.headers.get("location");
+      if (res.status >= 300 && res.status < 400 && location) {
+        await res.body?.cancel().catch(() => undefined);
+        url = new URL(location, url);
+        continue;
+      }
+      if (!res.ok) {
+        await res.body?.cancel().catch(() => undefined);
+        return undefined;
+      }
+      return await readCapped(res, maxBytes);
+    }
+  } catch {
+    // refused connection, reset, timeout, malformed redirect
+  }
+  return undefined;
+}
@@ -0,0 +1,54 @@
+// lib/preferences/index.ts
+// Per-owner search preferences (visitor or account), stored in the app
+// database as JSON.
+import { AppError } from "@/lib/api/errors";
+import { getDb } from "@/lib/db";
+import { AGES, GENDERS, type Dimension } from "@/lib/taxonomy";
+import type { Preferences } from "@/type/account";
+
+export function getPreferences(owner: string): Preferences {
+  const row = getDb().prepare("SELECT data FROM preferences WHERE owner = ?").get(owner) as
+    | { data: string }
+    | undefined;
+  return row ? JSON.parse(row.data) : {};
+}
+
+// Scans shouldn't fail over preferences; an unreadable database means none
+export function preferencesFor(owner: string): Preferences {
+  try {
+    return getPreferences(owner);
+  } catch (e) {
+    console.warn("[preferences] couldn't load:", e);
+    return {};
+  }
+}
+
+const checkId = (dims: Dimension[], id: string | undefined, what: string) => {
+  if (id !== undefined && !dims.some((d) => d.id === id)) throw new AppError("BAD_REQUEST", `Unknown ${what} "${id}"`);
+};
+
+export function savePreferences(owner: string, prefs: Preferences): Preferences {
+  checkId(GENDERS, prefs.gender, "gender");
+  checkId(AGES, prefs.age, "age");
+  const clean: Preferences = { gender: prefs.gender, age: prefs.age };
+  getDb()
+    .prepare(
+      `INSERT INTO preferences (owner, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (owner) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+    )
+    .run(owner, JSON.stringify(clean), Date.now());
+  return clean;
+}
+
+// On sign-in a visitor's preferences become the account's, unless the
+// account already has its own
+export function transferPreferences(from: string, to: string): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(
+      `INSERT OR IGNORE INTO preferences (owner, data, updated_at)
+       SELECT ?, data, updated_at FROM preferences WHERE owner = ?`
+    ).run(to, from);
+    db.prepare("DELETE FROM preferences WHERE owner = ?").run(from);
+  })();
+}
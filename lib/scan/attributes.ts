@@ -0,0 +1,316 @@
+// lib/scan/attributes.ts
+import { matchBrandHits, MIN_BRAND_CONFIDENCE, type BrandEvidence } from "@/lib/brands";
+import { PALETTE, paletteHex, rankDominantColors, type DominantColor } from "@/lib/color";
+import { regionColors } from "@/lib/color/region";
+import { AGES, CATEGORIES, departmentOf, findCategory, GENDERS, type Dimension } from "@/lib/taxonomy";
+import { containsTerm, normalizeText } from "@/lib/text/normalize";
+import type { CaptionHints } from "@/lib/tiktok/caption";
+import { stripOverlayText } from "@/lib/tiktok/overlay";
+import { getVisionProvider, type AnnotateImageResponse } from "@/lib/vision";
+import type { Attributes, BoundingBox, MatchItem, ScoredValue } from "@/type/result";
+import { rankCandidates, type EvidenceSource, type Observation, type RankedCandidate } from "./evidence";
+import type { GarmentRegion } from "./garments";
+import { webLooks } from "./looks";
+
+// ---- toggles ----
+// VISION_LOG_RAW=1: log what Vision found for every garment (verbose)
+const logRawVision = () => process.env.VISION_LOG_RAW === "1";
+
+// Below these a candidate isn't used as the attribute value
+const MIN_CATEGORY_CONFIDENCE = 0.2;
+const MIN_SUBCATEGORY_CONFIDENCE = 0.3;
+const MIN_DIMENSION_CONFIDENCE = 0.3; // gender / age
+const MIN_COLOR_CONFIDENCE = 0.15;
+const MIN_PATTERN_CONFIDENCE = 0.3;
+const MAX_COLORS = 3;
+const MAX_CANDIDATES = 5;
+
+// An object-implied category with no other support counts for this much
+const OBJECT_PRIOR = 0.5;
+
+// Web entities strong enough to make up the best-guess query
+const MIN_GUESS_ENTITY_SCORE = 0.5;
+const MAX_GUESS_ENTITIES = 3;
+
+// Every ranked candidate with the hits behind it, for debug output
+export type EvidenceTrail = {
+  brand: RankedCandidate[];
+  category: RankedCandidate[];
+  subcategory: RankedCandidate[];
+  gender: RankedCandidate[];
+  age: RankedCandidate[];
+  colors: RankedCandidate[];
+  patterns: RankedCandidate[];
+};
+
+// One normalized piece of Vision output
+type Evidence = { text: string; source: EvidenceSource; score: number };
+
+// -------- Vision helpers --------
+export type ExtractOptions = {
+  overlay?: BoundingBox[]; // app chrome in this image (normalized); OCR inside it is ignored
+  caption?: CaptionHints;  // what the TikTok caption says the outfit is
+};
+
+export async function extractAttributes(
+  imageBuffer: Buffer,
+  region?: GarmentRegion,
+  options: ExtractOptions = {}
+): Promise<Attributes> {
+  return (await extractAttributesWithEvidence(imageBuffer, region, options)).attributes;
+}
+
+// When `region` is given the image is a crop of that garment: object localization
+// is skipped (we already know what it is), the category is constrained to
+// what that kind of object can be, and colors come from the crop's own pixels.
+export async function extractAttributesWithEvidence(
+  imageBuffer: Buffer,
+  region?: GarmentRegion,
+  { overlay = [], caption }: ExtractOptions = {}
+): Promise<{ attributes: Attributes; evidence: EvidenceTrail; looks: MatchItem[] }> {
+  const vision = getVisionProvider();
+
+  const [logoRes, labelRes, textRes, webRes, objRes, domColors] = await Promise.all([
+    vision.logoDetection(imageBuffer),
+    vision.labelDetection(imageBuffer),
+    vision.textDetection(imageBuffer).then((res) => stripOverlayText(imageBuffer, res, overlay)),
+    vision.webDetection(imageBuffer),
+    region
+      ? Promise.resolve<AnnotateImageResponse>({
+          localizedObjectAnnotations: [{ name: region.label, score: region.score }],
+        })
+      : vision.objectLocalization(imageBuffer),
+    // A crop's colors are measured locally so the garment's own color wins over
+    // the screenshot's; a whole image still goes to Vision
+    region
+      ? regionColors(imageBuffer)
+      : vision.imageProperties(imageBuffer).then((r) => r.imagePropertiesAnnotation?.dominantColors?.colors ?? []),
+  ]);
+
+  const logos = logoRes.logoAnnotations ?? [];
+  const labels = labelRes.labelAnnotations ?? [];
+  const textAnns = textRes.textAnnotations ?? [];
+  const texts = textAnns
+    .map((t: any) => t.description?.trim())
+    .filter(Boolean) as string[];
+
+  const web = webRes.webDetection;
+  const webEntities = web?.webEntities ?? [];
+  const objects = objRes.localizedObjectAnnotations ?? [];
+
+  // The first text annotation is the whole OCR block; use its lines rather than
+  // the per-word annotations so multi-word names survive and words aren't
+  // counted twice. Web entity scores aren't bounded to 1.
+  const ocrLines = (textAnns[0]?.description ?? "").split("\n").map((l: string) => l.trim()).filter(Boolean);
+  const evidence: Evidence[] = [
+    ...logos.map((l: any) => ({ text: l.description ?? "", source: "logo" as const, score: l.score ?? 1 })),
+    ...labels.map((l: any) => ({ text: l.description ?? "", source: "label" as const, score: l.score ?? 1 })),
+    ...ocrLines.map((t: string) => ({ text: t, source: "text" as const, score: 1 })),
+    ...webEntities.map((e: any) => ({ text: e.description ?? "", source: "web" as const, score: Math.min(1, e.score ?? 1) })),
+    ...objects.map((o: any) => ({ text: o.name ?? "", source: "object" as const, score: o.score ?? 1 })),
+  ].filter((e) => e.text.trim());
+
+  const top = (list: RankedCandidate[], min: number) => (list[0] && list[0].confidence >= min ? list[0] : undefined);
+  // Subcategories are only ranked within the category that won
+  const hints = captionObservations(caption, region);
+  const categories = rankCategories(evidence, region, hints.category);
+  const colors = rankColors(evidence, domColors, !region);
+  const category = top(categories, MIN_CATEGORY_CONFIDENCE);
+
+  const trail: EvidenceTrail = {
+    brand: rankBrands(evidence, hints.brand),
+    category: categories,
+    subcategory: rankSubcategories(evidence, category?.value),
+    gender: rankDimension("gender", evidence, GENDERS),
+    age: rankDimension("age", evidence, AGES),
+    colors: colors.ranked,
+    patterns: rankPatterns(evidence),
+  };
+
+  if (logRawVision()) {
+    console.log("[vision raw counts]", {
+      logos: logos.length,
+      labels: labels.length,
+      texts: texts.length,
+      webEntities: webEntities.length,
+      objects: objects.length,
+      domColors: domColors.length,
+    });
+    console.log("[vision samples]", {
+      labels: labels.map((l: any) => l.description).slice(0, 10),
+      web: webEntities.map((e: any) => e.description).slice(0, 10),
+      bestGuess: (web?.bestGuessLabels ?? []).map((l) => l.label),
+      texts: texts.slice(0, 5),
+      objects: objects.map((o: any) => o.name).slice(0, 10),
+    });
+  }
+
+  const brand = top(trail.brand, MIN_BRAND_CONFIDENCE);
+  const scored = (list: RankedCandidate[]): ScoredValue[] =>
+    list.slice(0, MAX_CANDIDATES).map((c) => ({ value: c.value, confidence: c.confidence }));
+
+  const colorNames = trail.colors
+    .filter((c) => c.confidence >= MIN_COLOR_CONFIDENCE)
+    .slice(0, MAX_COLORS)
+    .map((c) => c.value);
+
+  const attributes: Attributes = {
+    brand: brand?.value,
+    department: departmentOf(category?.value)?.id,
+    category: category?.value,
+    subcategory: top(trail.subcategory, MIN_SUBCATEGORY_CONFIDENCE)?.value,
+    gender: top(trail.gender, MIN_DIMENSION_CONFIDENCE)?.value,
+    age: top(trail.age, MIN_DIMENSION_CONFIDENCE)?.value,
+    colors: colorNames,
+    // what was actually seen when available, else the palette's idea of the color
+    swatches: colorNames.map((name) => ({ name, hex: colors.hex[name] ?? paletteHex(name) ?? "#cccccc" })),
+    patterns: trail.patterns.filter((c) => c.confidence >= MIN_PATTERN_CONFIDENCE).map((c) => c.value),
+    texts,
+    // Vision's own guess reads like a product name; entities are the fallback
+    bestGuess: web?.bestGuessLabels?.[0]?.label?.trim() || webGuess(webEntities),
+    confidence: { brand: brand?.confidence, category: category?.confidence },
+    candidates: {
+      brand: scored(trail.brand),
+      category: scored(trail.category),
+      subcategory: scored(trail.subcategory),
+      colors: scored(trail.colors),
+      patterns: scored(trail.patterns),
+    },
+  };
+  return { attributes, evidence: trail, looks: webLooks(web) };
+}
+
+// What pages showing this image call it: the strongest web entities, in score
+// order ("nike hoodie fleece"). Stands in when Vision has no best-guess label.
+function webGuess(entities: any[]): string | undefined {
+  const terms = entities
+    .filter((e) => e.description && (e.score ?? 0) >= MIN_GUESS_ENTITY_SCORE)
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+    .map((e) => normalizeText(e.description))
+    .filter((t, i, all) => t && all.indexOf(t) === i)
+    .slice(0, MAX_GUESS_ENTITIES);
+  return terms.length ? terms.join(" ") : undefined;
+}
+
+// -------- Candidate ranking per attribute --------
+function rankBrands(evidence: Evidence[], hints: Observation[]): RankedCandidate[] {
+  // Brand sources are a subset of evidence sources ("color" never names a brand)
+  const brandEvidence = evidence.filter((e) => e.source !== "color") as BrandEvidence[];
+  const observations: Observation[] = matchBrandHits(brandEvidence).map((h) => ({
+    value: h.name,
+    source: h.source,
+    text: h.term,
+    score: 1,
+    match: h.confidence, // already match-kind weight × annotation score
+  }));
+  return rankCandidates("brand", [...observations, ...hints]);
+}
+
+// Caption items ("jeans: levis") count for a garment only when it can be that
+// kind of garment. Brands merely mentioned (#zara, @levis) could be about any
+// piece of the outfit, so they count for less.
+const CAPTION_MENTION_MATCH = 0.5;
+const CAPTION_UNKNOWN_BRAND_MATCH = 0.7; // "top: some small label" isn't in the registry
+
+function captionObservations(
+  caption: CaptionHints | undefined,
+  region?: GarmentRegion
+): { brand: Observation[]; category: Observation[] } {
+  const brand: Observation[] = [];
+  const category: Observation[] = [];
+  if (!caption) return { brand, category };
+
+  const fits = (c: string) => !region?.categories.length || region.categories.includes(c);
+  for (const item of caption.items.filter((i) => fits(i.category))) {
+    const match = item.known ? 1 : CAPTION_UNKNOWN_BRAND_MATCH;
+    brand.push({ value: item.brand, source: "caption", text: item.text, score: 1, match });
+    category.push({ value: item.category, source: "caption", text: item.text, score: 1 });
+  }
+
+  const itemBrands = new Set(caption.items.map((i) => i.brand));
+  for (const name of caption.brands.filter((b) => !itemBrands.has(b))) {
+    brand.push({ value: name, source: "caption", text: caption.text, score: 1, match: CAPTION_MENTION_MATCH });
+  }
+  return { brand, category };
+}
+
+// With a region, only categories that kind of object can be are considered,
+// and the object itself is weak evidence for the first of them. A subcategory
+// name ("cardigan") is evidence for its category ("knitwear") too.
+function rankCategories(evidence: Evidence[], region: GarmentRegion | undefined, hints: Observation[]): RankedCandidate[] {
+  const allowed = region?.categories.length
+    ? CATEGORIES.filter((c) => region.categories.includes(c.id))
+    : CATEGORIES;
+
+  const observations = observeTerms(
+    evidence,
+    allowed.map((c) => ({
+      value: c.id,
+      terms: [...c.synonyms, ...c.subcategories.flatMap((s) => s.synonyms)],
+    }))
+  );
+  if (region?.categories.length) {
+    observations.push({
+      value: region.categories[0],
+      source: "object",
+      text: region.label,
+      score: region.score,
+      match: OBJECT_PRIOR,
+    });
+  }
+  return rankCandidates("category", [...observations, ...hints]);
+}
+
+function rankSubcategories(evidence: Evidence[], categoryId?: string): RankedCandidate[] {
+  const subcategories = findCategory(categoryId)?.subcategories ?? [];
+  return rankCandidates(
+    "category",
+    observeTerms(evidence, subcategories.map((s) => ({ value: s.id, terms: s.synonyms })))
+  );
+}
+
+function rankDimension(kind: "gender" | "age", evidence: Evidence[], values: Dimension[]): RankedCandidate[] {
+  return rankCandidates(kind, observeTerms(evidence, values.map((d) => ({ value: d.id, terms: d.synonyms }))));
+}
+
+// Color names come from the palette; Vision's dominant colors are named in
+// CIELAB and weighted by how much of the image they cover
+function rankColors(
+  evidence: Evidence[],
+  domColors: DominantColor[],
+  dropBackground: boolean
+): { ranked: RankedCandidate[]; hex: Record<string, string> } {
+  const observations = observeTerms(
+    evidence,
+    PALETTE.map((p) => ({ value: p.name, terms: p.terms }))
+  );
+  const hex: Record<string, string> = {};
+  for (const c of rankDominantColors(domColors, { dropBackground })) {
+    hex[c.name] = c.hex;
+    observations.push({ value: c.name, source: "color", text: `${c.hex} (${Math.round(c.share * 100)}%)`, score: c.share });
+  }
+  return { ranked: rankCandidates("color", observations), hex };
+}
+
+const PATTERN_WORDS = ["striped", "plaid", "checkered", "floral", "polka dot", "graphic", "logo", "solid"];
+
+function rankPatterns(evidence: Evidence[]): RankedCandidate[] {
+  return rankCandidates(
+    "pattern",
+    observeTerms(evidence, PATTERN_WORDS.map((p) => ({ value: p, terms: [p] })))
+  );
+}
+
+// One observation per (evidence, value) whose terms appear as whole words
+function observeTerms(evidence: Evidence[], vocab: { value: string; terms: string[] }[]): Observation[] {
+  const out: Observation[] = [];
+  for (const e of evidence) {
+    const text = normalizeText(e.text);
+    for (const { value, terms } of vocab) {
+      if (terms.some((t) => containsTerm(text, normalizeText(t)))) {
+        out.push({ value, source: e.source, text: e.text, score: e.score });
+      }
+    }
+  }
+  return out;
+}
@@ -0,0 +1,94 @@
+// lib/scan/cache.ts
+// Re-uploading the same screenshot (or a re-saved, recompressed copy) reuses
+// the earlier Vision analysis and search results. Images are keyed by
+// perceptual hash, and a hash the same or a few bits away is only a candidate:
+// 64 bits can't tell apart two screenshots that share most of their pixels
+// (the same app chrome), so a hit also needs the same aspect ratio and a
+// finer 256-bit hash that is nearly the same.
+import sharp from "sharp";
+import { cacheTtlMs, getCacheStore, type CacheLayer } from "@/lib/cache";
+import { dHash, hammingDistance } from "@/lib/image/hash";
+import type { CacheOutcome, CacheStatus } from "@/type/result";
+
+const NEAR_DUPLICATE_BITS = 3;
+const DETAIL_SIZE = 16; // 16x16 = 256-bit confirmation hash
+const NEAR_DUPLICATE_DETAIL_BITS = 20; // of 256; recompression flips a handful, flat areas a few more
+const ASPECT_TOLERANCE = 0.02; // crops of the same screenshot hash alike too
+
+export type ImageKey = { hash: string; aspect: number; detail: string };
+
+// What an image-keyed entry has to carry for a near-hit to be confirmed
+export type ImageEntry = { aspect: number; detail?: string };
+
+// What the cache hands back: the stored value and the hash it was stored under
+export type CacheLookup<T> = { hash: string; value: T; outcome: Exclude<CacheOutcome, "miss" | "off"> };
+
+export async function imageKey(image: Buffer): Promise<ImageKey> {
+  const { width = 1, height = 1 } = await sharp(image).metadata();
+  return { hash: await dHash(image), aspect: width / height, detail: await dHash(image, DETAIL_SIZE) };
+}
+
+// -------- Lookups --------
+// Entries of an image-keyed layer carry the aspect ratio and detail hash they
+// were stored with (entries from before the detail hash never hit).
+// Caching is best effort: a store that fails reads as a miss and a failed
+// write is only logged.
+const sameImage = (value: ImageEntry | undefined, key: ImageKey) =>
+  !!value?.detail &&
+  Math.abs(value.aspect - key.aspect) / key.aspect <= ASPECT_TOLERANCE &&
+  hammingDistance(value.detail, key.detail) <= NEAR_DUPLICATE_DETAIL_BITS;
+
+export async function findImage<T extends ImageEntry>(
+  layer: CacheLayer,
+  key: ImageKey
+): Promise<CacheLookup<T> | undefined> {
+  const store = getCacheStore();
+  if (!store) return undefined;
+
+  try {
+    const exact = await store.get<T>(layer, key.hash);
+    if (exact && sameImage(exact, key)) return { hash: key.hash, value: exact, outcome: "hit" };
+
+    const near = (await store.keys(layer))
+      .map((hash) => ({ hash, distance: hammingDistance(hash, key.hash) }))
+      .filter((c) => c.distance > 0 && c.distance <= NEAR_DUPLICATE_BITS)
+      .sort((a, b) => a.distance - b.distance);
+    for (const { hash } of near) {
+      const value = await store.get<T>(layer, hash);
+      if (value && sameImage(value, key)) return { hash, value, outcome: "near-hit" };
+    }
+  } catch (e) {
+    console.warn(`[cache] ${layer} lookup failed:`, e);
+  }
+  return undefined;
+}
+
+export async function getCached<T>(layer: CacheLayer, key: string): Promise<T | undefined> {
+  try {
+    return await getCacheStore()?.get<T>(layer, key);
+  } catch (e) {
+    console.warn(`[cache] ${layer} lookup failed:`, e);
+    return undefined;
+  }
+}
+
+export async function putCached<T>(layer: CacheLayer, key: string, value: T): Promise<void> {
+  try {
+    await getCacheStore()?.set(layer, key, value, cacheTtlMs(layer));
+  } catch (e) {
+    console.warn(`[cache] couldn't store ${layer} entry:`, e);
+  }
+}
+
+export const cacheEnabled = () => !!getCacheStore();
+
+// Several scans in one response (video frames): each layer reports the least
+// reuse any of them got
+const REUSE: CacheOutcome[] = ["off", "miss", "near-hit", "hit"];
+
+export function combineCacheStatus(list: CacheStatus[]): CacheStatus | undefined {
+  if (!list.length) return undefined;
+  const least = (layer: keyof CacheStatus) =>
+    REUSE[Math.min(...list.map((s) => REUSE.indexOf(s[layer])))];
+  return { analysis: least("analysis"), search: least("search") };
+}
@@ -0,0 +1,43 @@
+// lib/scan/classify.ts
+import { CATEGORIES, departmentOf, type Category } from "@/lib/taxonomy";
+import { containsTerm, normalizeText } from "@/lib/text/normalize";
+import type { Attributes, GarmentClass, MatchItem } from "@/type/result";
+
+// A subcategory name in a title ("trucker jacket") says more than a bare
+// category word ("denim"); the garment we searched for breaks ties.
+const SUBCATEGORY_HIT = 2;
+const CATEGORY_HIT = 1;
+const SEARCHED_BONUS = 0.5;
+
+const mentions = (text: string, terms: string[]) => terms.some((t) => containsTerm(text, normalizeText(t)));
+
+// Classify one product title; falls back to what was searched for
+export function classifyTitle(title: string, searched?: Attributes): GarmentClass | undefined {
+  const text = normalizeText(title);
+  let best: { category: Category; subcategory?: string; score: number } | undefined;
+
+  for (const category of CATEGORIES) {
+    const sub = category.subcategories.find((s) => mentions(text, s.synonyms));
+    let score = sub ? SUBCATEGORY_HIT : mentions(text, category.synonyms) ? CATEGORY_HIT : 0;
+    if (!score) continue;
+    if (category.id === searched?.category) score += SEARCHED_BONUS;
+    if (!best || score > best.score) best = { category, subcategory: sub?.id, score };
+  }
+
+  if (best) {
+    const department = departmentOf(best.category.id)!.id;
+    return { department, category: best.category.id, subcategory: best.subcategory };
+  }
+  const department = departmentOf(searched?.category)?.id;
+  return department && searched?.category
+    ? { department, category: searched.category, subcategory: searched.subcategory }
+    : undefined;
+}
+
+// Tag every match with its garment class so results can be filtered by tab
+export function classifyMatches(matches: MatchItem[], searched?: Attributes): MatchItem[] {
+  return matches.map((m) => {
+    const garment = classifyTitle(m.title ?? m.name ?? "", searched);
+    return garment ? { ...m, garment } : m;
+  });
+}
@@ -0,0 +1,69 @@
+// lib/scan/evidence.ts
+// Scores attribute candidates from everything Vision said about an image.
+// Each observation is weighted by the annotation's own score and by how
+// reliable its source is for that kind of attribute; observations for the same
+// value from different sources reinforce each other (noisy-OR).
+
+export type EvidenceSource = "logo" | "label" | "text" | "web" | "object" | "color" | "caption";
+export type AttributeKind = "brand" | "category" | "color" | "pattern" | "gender" | "age";
+
+// How much a source is trusted for each attribute (0 = ignored)
+export const SOURCE_RELIABILITY: Record<AttributeKind, Partial<Record<EvidenceSource, number>>> = {
+  brand: { logo: 1, caption: 0.95, text: 0.8, web: 0.7, label: 0.5, object: 0.2 },
+  category: { object: 0.9, label: 0.85, caption: 0.8, web: 0.6, text: 0.5 },
+  color: { color: 0.8, label: 0.6, web: 0.5, text: 0.4 },
+  pattern: { label: 0.8, web: 0.6, text: 0.4 },
+  gender: { text: 0.7, web: 0.6, label: 0.5 },
+  age: { text: 0.7, web: 0.6, label: 0.5 },
+};
+
+// Something Vision reported that supports `value`
+export type Observation = {
+  value: string;
+  source: EvidenceSource;
+  text: string;   // what Vision actually said
+  score: number;  // annotation score, 0..1 (1 when Vision gives none)
+  match?: number; // how well `text` matched `value`, 0..1 (default 1)
+};
+
+export type EvidenceHit = Omit<Observation, "value" | "match"> & { weight: number };
+
+export type RankedCandidate = {
+  value: string;
+  confidence: number;
+  hits: EvidenceHit[]; // strongest first
+};
+
+const MAX_HITS = 5;
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// -------- Ranking --------
+export function rankCandidates(kind: AttributeKind, observations: Observation[]): RankedCandidate[] {
+  const reliability = SOURCE_RELIABILITY[kind];
+  const byValue = new Map<string, EvidenceHit[]>();
+
+  for (const o of observations) {
+    const weight = clamp01((reliability[o.source] ?? 0) * clamp01(o.score) * (o.match ?? 1));
+    if (weight <= 0) continue;
+    const hits = byValue.get(o.value) ?? [];
+    hits.push({ source: o.source, text: o.text, score: round2(o.score), weight: round2(weight) });
+    byValue.set(o.value, hits);
+  }
+
+  const ranked: RankedCandidate[] = [];
+  for (const [value, hits] of byValue) {
+    // Repeats from one source aren't independent: keep its strongest hit only
+    const perSource = new Map<EvidenceSource, number>();
+    for (const h of hits) perSource.set(h.source, Math.max(perSource.get(h.source) ?? 0, h.weight));
+    const confidence = 1 - [...perSource.values()].reduce((p, w) => p * (1 - w), 1);
+
+    ranked.push({
+      value,
+      confidence: round2(confidence),
+      hits: hits.sort((a, b) => b.weight - a.weight).slice(0, MAX_HITS),
+    });
+  }
+  return ranked.sort((a, b) => b.confidence - a.confidence);
+}
@@ -0,0 +1,96 @@
+// lib/scan/garments.ts
+import sharp from "sharp";
+import { uprightSize } from "@/lib/image/dimensions";
+import { categoriesForObject } from "@/lib/taxonomy";
+import type { AnnotateImageResponse } from "@/lib/vision";
+import type { BoundingBox } from "@/type/result";
+
+// A clothing item located by Vision object localization
+export type GarmentRegion = {
+  label: string;
+  score: number;
+  box: BoundingBox;
+  categories: string[]; // canonical categories this object can resolve to, best first
+};
+
+const MAX_GARMENTS = 5;
+const MIN_OBJECT_SCORE = 0.5;
+const CROP_PADDING = 0.04; // grow each box a little so edges/logos aren't clipped
+
+function toBox(poly: any): BoundingBox | undefined {
+  const pts: any[] = poly?.normalizedVertices ?? [];
+  if (!pts.length) return undefined;
+  const xs = pts.map((p) => p.x ?? 0);
+  const ys = pts.map((p) => p.y ?? 0);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function union(a: BoundingBox, b: BoundingBox): BoundingBox {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+// Pick clothing objects out of a localization response. Several objects of the
+// same kind (e.g. left and right shoe) are merged into one region.
+export function findGarmentRegions(res: AnnotateImageResponse): GarmentRegion[] {
+  const byKind = new Map<string, GarmentRegion>();
+
+  for (const o of res.localizedObjectAnnotations ?? []) {
+    // Which objects count as garments is decided by the taxonomy's `objects` lists
+    const categories = categoriesForObject(o.name ?? "");
+    const box = toBox(o.boundingPoly);
+    const score = o.score ?? 0;
+    if (!categories.length || !box || score < MIN_OBJECT_SCORE) continue;
+
+    const kind = categories[0];
+    const prev = byKind.get(kind);
+    if (prev) {
+      prev.box = union(prev.box, box);
+      prev.score = Math.max(prev.score, score);
+    } else {
+      byKind.set(kind, { label: o.name!.trim(), score, box, categories });
+    }
+  }
+
+  // top-to-bottom reads naturally: jacket, jeans, shoes
+  return [...byKind.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_GARMENTS)
+    .sort((a, b) => a.box.y - b.box.y);
+}
+
+// The area cropRegion actually cuts out, in the same normalized coordinates
+export function paddedBox(box: BoundingBox): BoundingBox {
+  const x0 = Math.max(0, box.x - CROP_PADDING);
+  const y0 = Math.max(0, box.y - CROP_PADDING);
+  const x1 = Math.min(1, box.x + box.width + CROP_PADDING);
+  const y1 = Math.min(1, box.y + box.height + CROP_PADDING);
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+export async function cropRegion(image: Buffer, box: BoundingBox): Promise<Buffer> {
+  const img = sharp(image).rotate(); // respect EXIF orientation, same as Vision
+  const { width, height } = uprightSize(await img.metadata());
+  if (!width || !height) throw new Error("Could not read image dimensions");
+
+  const padded = paddedBox(box);
+  const left = Math.floor(padded.x * width);
+  const top = Math.floor(padded.y * height);
+  return img
+    .extract({
+      left,
+      top,
+      width: Math.max(1, Math.min(width - left, Math.round(padded.width * width))),
+      height: Math.max(1, Math.min(height - top, Math.round(padded.height * height))),
+    })
+    .jpeg({ quality: 90 })
+    .toBuffer();
+}
@@ -0,0 +1,190 @@
+// lib/scan/index.ts
+import { getShoppingProvider, SearchQuotaExceededError } from "@/lib/shopping";
+import { parseCaption, type CaptionHints } from "@/lib/tiktok/caption";
+import { detectTikTokOverlay, maskOverlay, overlayText, relativeTo, type OverlayRegion } from "@/lib/tiktok/overlay";
+import { getVisionProvider } from "@/lib/vision";
+import type { Preferences } from "@/type/account";
+import type { CacheOutcome, CacheStatus, GarmentResult, MatchItem } from "@/type/result";
+import { cacheEnabled, findImage, getCached, imageKey, putCached, type ImageKey } from "./cache";
+import { classifyMatches } from "./classify";
+import { extractAttributesWithEvidence, type EvidenceTrail } from "./attributes";
+import { cropRegion, findGarmentRegions, paddedBox, type GarmentRegion } from "./garments";
+import { buildQuery, planQueries, withPreferences } from "./query";
+import { rankMatches } from "./rank";
+import { runQueryPlan, type SearchRun } from "./search";
+
+export { extractAttributes, type EvidenceTrail } from "./attributes";
+export { buildQuery, planQueries, withPreferences, type PlannedQuery } from "./query";
+export { rankMatches } from "./rank";
+export { runQueryPlan, type SearchRun } from "./search";
+export { combineCacheStatus } from "./cache";
+
+export type ScanResult = {
+  garments: GarmentResult[];
+  matches: MatchItem[]; // all garments' matches, flattened
+  provider: string;
+  warnings: string[];
+  evidence: Record<string, EvidenceTrail>; // by garment id, for debug output
+  searches: Record<string, SearchRun[]>;   // by garment id, for debug output
+  overlay: OverlayRegion[]; // TikTok chrome that was masked out, if any
+  caption?: CaptionHints;   // parsed from the masked-out caption band
+  cache: CacheStatus;
+};
+
+export type ScanOptions = {
+  preferences?: Preferences; // the owner's, applied to the searches only
+};
+
+// What Vision made of an image, before any search; cached per image
+type Analysis = {
+  aspect: number;
+  detail?: string; // the image's fine hash, to confirm near-hits (lib/scan/cache.ts)
+  garments: GarmentResult[]; // matches not filled in yet
+  evidence: Record<string, EvidenceTrail>;
+  overlay: OverlayRegion[];
+  caption?: CaptionHints;
+  warnings: string[];
+};
+
+// Search results for an analysis, by garment id; cached per image and provider
+type Searched = {
+  matches: Record<string, MatchItem[]>;
+  searches: Record<string, SearchRun[]>;
+};
+
+// -------- Scan pipeline --------
+// 0) mask TikTok UI chrome, 1) localize clothing objects, 2) extract attributes
+// per garment crop, 3) plan query variants per garment, 4) run them with
+// fallbacks until enough products turn up, 5) score and sort them.
+// Falls back to scanning the whole image as a single item when no garment
+// objects are found. Steps 0-2 and 3-5 are each cached by image hash.
+export async function scanImage(original: Buffer, { preferences }: ScanOptions = {}): Promise<ScanResult> {
+  const shopping = getShoppingProvider();
+  const key = cacheEnabled() ? await imageKey(original) : undefined;
+
+  const cached = key && (await findImage<Analysis>("analysis", key));
+  const analysis = cached ? cached.value : await analyzeImage(original, key);
+  const hash = cached ? cached.hash : key?.hash;
+  if (hash && !cached) await putCached("analysis", hash, analysis);
+
+  // Same analysis, same queries: results are keyed by the hash the analysis is
+  // under, plus the preferences that went into the queries
+  const audience = preferences?.gender || preferences?.age ? `:${preferences.gender ?? ""}/${preferences.age ?? ""}` : "";
+  const searchKey = hash && `${hash}:${shopping.name}${audience}`;
+  const hit = searchKey ? await getCached<Searched>("search", searchKey) : undefined;
+  const { searched, failures } = hit
+    ? { searched: hit, failures: [] }
+    : await searchGarments(analysis.garments, preferences);
+  // Results with a failed search in them would hide that garment until they expire
+  if (searchKey && !hit && !failures.length) await putCached("search", searchKey, searched);
+
+  const garments = analysis.garments.map((g) => ({ ...g, matches: searched.matches[g.id] ?? [] }));
+  const outcome = (found: boolean): CacheOutcome => (!key ? "off" : !found ? "miss" : cached?.outcome ?? "hit");
+
+  return {
+    garments,
+    matches: garments.flatMap((g) => g.matches),
+    provider: shopping.name,
+    warnings: [...analysis.warnings, ...failures],
+    evidence: analysis.evidence,
+    searches: searched.searches,
+    overlay: analysis.overlay,
+    caption: analysis.caption,
+    cache: { analysis: outcome(!!cached), search: outcome(!!hit) },
+  };
+}
+
+async function analyzeImage(original: Buffer, key?: ImageKey): Promise<Analysis> {
+  const vision = getVisionProvider();
+  const text = await vision.textDetection(original);
+  const overlay = await detectTikTokOverlay(original, text);
+  const image = await maskOverlay(original, overlay);
+  // The caption is chrome too, but what it says is worth keeping as hints
+  const captionText = await overlayText(original, text, overlay, "caption");
+  const caption = captionText ? parseCaption(captionText) : undefined;
+
+  const regions = findGarmentRegions(await vision.objectLocalization(image));
+
+  const scanned = regions.length
+    ? await Promise.all(regions.map((r, i) => scanRegion(image, r, `g${i}`, overlay, caption)))
+    : [await scanWhole(image, overlay, caption)];
+
+  const warnings: string[] = [];
+  if (!regions.length) warnings.push("No individual garments found; scanned the whole image as one item.");
+
+  return {
+    aspect: key?.aspect ?? 0,
+    detail: key?.detail,
+    garments: scanned.map((s) => s.garment),
+    evidence: Object.fromEntries(scanned.map((s) => [s.garment.id, s.evidence])),
+    overlay,
+    caption,
+    warnings,
+  };
+}
+
+// Plans, runs and ranks each garment's search from its attributes. `failures`
+// are user-facing warnings, one per garment whose search failed.
+export async function searchGarments(
+  garments: GarmentResult[],
+  preferences?: Preferences
+): Promise<{ searched: Searched; failures: string[] }> {
+  const shopping = getShoppingProvider();
+  const matches: Record<string, MatchItem[]> = {};
+  const searches: Record<string, SearchRun[]> = {};
+  const failures: string[] = [];
+
+  // One failed search shouldn't sink the other garments
+  await Promise.all(
+    garments.map(async (g) => {
+      const attributes = withPreferences(g.attributes, preferences);
+      const plan = planQueries(attributes);
+      if (!plan.length) return;
+      try {
+        const found = await runQueryPlan(plan, shopping);
+        matches[g.id] = await rankMatches(classifyMatches(found.matches, attributes), attributes);
+        searches[g.id] = found.runs;
+      } catch (e: any) {
+        if (e instanceof SearchQuotaExceededError) throw e; // every other search would fail too
+        console.warn(`[scan] search failed for "${g.query}":`, e);
+        failures.push(`Search failed for ${g.label.toLowerCase()}: ${e?.message ?? "unknown error"}`);
+      }
+    })
+  );
+  return { searched: { matches, searches }, failures };
+}
+
+type ScannedGarment = { garment: GarmentResult; evidence: EvidenceTrail };
+
+async function scanRegion(
+  image: Buffer,
+  region: GarmentRegion,
+  id: string,
+  overlay: OverlayRegion[],
+  caption?: CaptionHints
+): Promise<ScannedGarment> {
+  const crop = await cropRegion(image, region.box);
+  const { attributes, evidence, looks } = await extractAttributesWithEvidence(crop, region, {
+    overlay: relativeTo(overlay, paddedBox(region.box)),
+    caption,
+  });
+  return {
+    garment: { id, label: region.label, box: region.box, attributes, query: buildQuery(attributes), matches: [], looks },
+    evidence,
+  };
+}
+
+async function scanWhole(image: Buffer, overlay: OverlayRegion[], caption?: CaptionHints): Promise<ScannedGarment> {
+  const { attributes, evidence, looks } = await extractAttributesWithEvidence(image, undefined, { overlay, caption });
+  return {
+    garment: {
+      id: "g0",
+      label: attributes.category ?? "Outfit",
+      attributes,
+      query: buildQuery(attributes),
+      matches: [],
+      looks,
+    },
+    evidence,
+  };
+}
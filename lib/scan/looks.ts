@@ -0,0 +1,54 @@
+// lib/scan/looks.ts
+// Vision web detection also says where the image itself appears online (pages
+// with a full or partial copy) and which images look like it. Those aren't
+// products, but "this exact look is on that blog" is often the best lead.
+import type { AnnotateImageResponse } from "@/lib/vision";
+import type { MatchItem } from "@/type/result";
+
+const MAX_PAGES = 6;
+const MAX_SIMILAR = 6;
+
+type WebDetection = NonNullable<AnnotateImageResponse["webDetection"]>;
+
+// "www.example.com/a/b" -> "example.com"; undefined for anything unparsable
+const host = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return undefined;
+  }
+};
+
+// Page titles come back with <b> highlighting and entities
+const plainTitle = (html: string) =>
+  html
+    .replace(/<[^>]*>/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// -------- Web matches --------
+// Pages first (a full match beats a partial one), then visually similar images
+export function webLooks(web?: WebDetection | null): MatchItem[] {
+  const pages = (web?.pagesWithMatchingImages ?? [])
+    .filter((p) => p.url && host(p.url))
+    .sort((a, b) => (b.fullMatchingImages?.length ?? 0) - (a.fullMatchingImages?.length ?? 0))
+    .slice(0, MAX_PAGES)
+    .map((p): MatchItem => ({
+      id: p.url!,
+      title: plainTitle(p.pageTitle ?? "") || host(p.url!),
+      store: host(p.url!),
+      url: p.url!,
+      image: p.fullMatchingImages?.[0]?.url ?? p.partialMatchingImages?.[0]?.url ?? undefined,
+      source: "page",
+    }));
+
+  const similar = (web?.visuallySimilarImages ?? [])
+    .filter((i) => i.url && host(i.url))
+    .slice(0, MAX_SIMILAR)
+    .map((i): MatchItem => ({ id: i.url!, store: host(i.url!), url: i.url!, image: i.url!, source: "similar-image" }));
+
+  return [...pages, ...similar];
+}
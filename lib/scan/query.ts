@@ -0,0 +1,56 @@
+// lib/scan/query.ts
+import { AGES, dimensionQuery, findCategory, GENDERS, garmentTerm } from "@/lib/taxonomy";
+import type { Preferences } from "@/type/account";
+import type { Attributes, QueryVariant } from "@/type/result";
+
+// One shopping query and how it was derived from the attributes
+export type PlannedQuery = { variant: QueryVariant; query: string };
+
+const words = (...parts: (string | undefined)[]) =>
+  parts.filter(Boolean).join(" ").replace(/\s+/g, " ").trim();
+
+// Who the user shops for fills in what the image didn't say; what it did say wins
+export function withPreferences(a: Attributes, prefs?: Preferences): Attributes {
+  if (!prefs || (a.gender && a.age) || (!prefs.gender && !prefs.age)) return a;
+  return { ...a, gender: a.gender ?? prefs.gender, age: a.age ?? prefs.age };
+}
+
+// -------- Planning --------
+// Most specific first; each later variant drops something that may have been
+// misread (pattern, color, brand) or falls back to what the web thinks the
+// item is. Identical strings are only planned once.
+export function planQueries(attrs: Attributes): PlannedQuery[] {
+  // try to infer tee/t-shirt from OCR if category missing; on a copy, since the
+  // caller's attributes may be a cached analysis
+  const txt = (attrs.texts ?? []).join(" ").toLowerCase();
+  const a = !attrs.category && /\b(t-?shirt|tee|shirt)\b/.test(txt) ? { ...attrs, category: "t-shirt" } : attrs;
+
+  // "women's", "kids" etc. only when the image actually said so
+  const audience = words(dimensionQuery(GENDERS, a.gender), dimensionQuery(AGES, a.age));
+  // the subcategory's term is more specific ("cardigan" rather than "sweater")
+  const garment = garmentTerm(a.category, a.subcategory);
+  const broad = findCategory(a.category)?.query ?? a.category;
+  const color = a.colors?.[0];
+  const pattern = a.patterns?.[0];
+
+  const plan: PlannedQuery[] = [];
+  const add = (variant: QueryVariant, query: string) => {
+    const full = `${query} buy`; // nudge shopping intent
+    if (query && !plan.some((p) => p.query === full)) plan.push({ variant, query: full });
+  };
+
+  // Avoid useless queries: brand or category is required for all but the best guess
+  if (a.brand || a.category) {
+    add("strict", words(a.brand, audience, garment, color, pattern));
+    add("relaxed", words(a.brand, broad, color));
+    add("no-color", words(a.brand, audience, garment));
+    if (a.brand && a.category) add("no-brand", words(audience, garment, color, pattern));
+  }
+  if (a.bestGuess) add("best-guess", a.bestGuess);
+  return plan;
+}
+
+// The query shown to the user: the most specific one planned, "" when there is none
+export function buildQuery(a: Attributes): string {
+  return planQueries(a)[0]?.query ?? "";
+}
@@ -0,0 +1,157 @@
+// lib/scan/rank.ts
+// Re-ranks shopping results against what was seen in the image and fills
+// MatchItem.match with a percentage. Each signal scores 0..1; signals that
+// can't be computed (no brand detected, no thumbnail) drop out and the rest
+// are re-weighted, so a missing thumbnail doesn't read as a bad match.
+import { matchBrands } from "@/lib/brands";
+import { deltaE2000, hexToRgb, rgbToLab, type Lab } from "@/lib/color";
+import { regionColors } from "@/lib/color/region";
+import { fetchPublic } from "@/lib/net/public";
+import { departmentOf, garmentTerm } from "@/lib/taxonomy";
+import { containsTerm, normalizeText } from "@/lib/text/normalize";
+import type { Attributes, MatchItem } from "@/type/result";
+
+type Signal = "category" | "brand" | "color" | "title";
+
+const WEIGHTS: Record<Signal, number> = { category: 0.35, brand: 0.25, color: 0.2, title: 0.2 };
+
+// Category agreement: same subcategory > same category > same department
+const SAME_SUBCATEGORY = 1;
+const SAME_CATEGORY = 0.8;
+const SAME_DEPARTMENT = 0.3;
+// A title naming no brand at all might still be the one (store brands, resellers)
+const UNBRANDED = 0.3;
+// ΔE2000 at which two colors no longer count as similar at all
+const MAX_COLOR_DELTA_E = 40;
+const PRODUCT_COLORS = 2; // thumbnail colors compared, heaviest first
+
+const THUMBNAIL_TIMEOUT_MS = 2500;
+const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024;
+const THUMBNAIL_CONCURRENCY = 6; // across all rankings in this process
+
+// Raw weighted score -> percentage shown to the user. Hand-fitted so that a
+// product agreeing on category, brand and color lands in the 90s and one
+// agreeing on category alone around 50.
+const CALIBRATION: [number, number][] = [
+  [0, 5],
+  [0.3, 30],
+  [0.5, 55],
+  [0.7, 78],
+  [0.85, 90],
+  [1, 98],
+];
+
+export type MatchScores = Partial<Record<Signal, number>>;
+
+function calibrate(raw: number): number {
+  for (let i = 1; i < CALIBRATION.length; i++) {
+    const [x0, y0] = CALIBRATION[i - 1];
+    const [x1, y1] = CALIBRATION[i];
+    if (raw <= x1) return Math.round(y0 + ((raw - x0) / (x1 - x0)) * (y1 - y0));
+  }
+  return CALIBRATION[CALIBRATION.length - 1][1];
+}
+
+// -------- Signals --------
+function categoryScore(m: MatchItem, a: Attributes): number | undefined {
+  if (!a.category) return undefined;
+  const g = m.garment;
+  if (!g) return 0;
+  if (g.category === a.category) return a.subcategory && g.subcategory === a.subcategory ? SAME_SUBCATEGORY : SAME_CATEGORY;
+  return g.department === departmentOf(a.category)?.id ? SAME_DEPARTMENT : 0;
+}
+
+function brandScore(m: MatchItem, a: Attributes): number | undefined {
+  if (!a.brand) return undefined;
+  const text = [m.title ?? m.name, m.store].filter(Boolean).join(" ");
+  // Brands typed by hand aren't in the registry; a plain mention still counts
+  if (containsTerm(normalizeText(text), normalizeText(a.brand))) return 1;
+  const named = matchBrands([{ text, source: "text" }]).map((b) => b.name);
+  if (named.includes(a.brand)) return 1;
+  return named.length ? 0 : UNBRANDED;
+}
+
+function titleScore(m: MatchItem, a: Attributes): number | undefined {
+  const wanted = new Set(
+    normalizeText([a.brand, garmentTerm(a.category, a.subcategory), a.colors?.[0], a.patterns?.[0]].filter(Boolean).join(" "))
+      .split(" ")
+      .filter(Boolean)
+  );
+  if (!wanted.size) return undefined;
+  const title = new Set(normalizeText(m.title ?? m.name ?? "").split(" "));
+  return [...wanted].filter((w) => title.has(w)).length / wanted.size;
+}
+
+// Closest pair between the garment's colors and the thumbnail's heaviest ones
+function colorScore(garment: Lab[], product: Lab[] | undefined): number | undefined {
+  if (!garment.length || !product?.length) return undefined;
+  const best = Math.min(...garment.flatMap((g) => product.map((p) => deltaE2000(g, p))));
+  return Math.max(0, 1 - best / MAX_COLOR_DELTA_E);
+}
+
+// Thumbnail fetches waiting for a slot; at most THUMBNAIL_CONCURRENCY run at once.
+// A finished fetch hands its slot straight to the next waiter (`active` stays
+// the same), so a new caller can't take it in between.
+let active = 0;
+const waiting: (() => void)[] = [];
+
+async function limited<T>(fn: () => Promise<T>): Promise<T> {
+  if (active < THUMBNAIL_CONCURRENCY) active++;
+  else await new Promise<void>((resolve) => waiting.push(resolve));
+  try {
+    return await fn();
+  } finally {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  }
+}
+
+// The thumbnail's dominant colors; undefined when it can't be fetched or read.
+// Thumbnail URLs come from third parties: only public hosts, size-capped.
+async function thumbnailColors(url?: string): Promise<Lab[] | undefined> {
+  if (!url || !/^https?:\/\//i.test(url)) return undefined;
+  try {
+    const buf = await limited(() =>
+      fetchPublic(url, { timeoutMs: THUMBNAIL_TIMEOUT_MS, maxBytes: MAX_THUMBNAIL_BYTES })
+    );
+    if (!buf) return undefined;
+    return (await regionColors(buf))
+      .sort((x, y) => (y.pixelFraction ?? 0) - (x.pixelFraction ?? 0))
+      .slice(0, PRODUCT_COLORS)
+      .map((c) => rgbToLab({ r: c.color?.red ?? 0, g: c.color?.green ?? 0, b: c.color?.blue ?? 0 }));
+  } catch {
+    return undefined;
+  }
+}
+
+// -------- Ranking --------
+export function scoreMatch(scores: MatchScores): number | undefined {
+  const present = (Object.keys(WEIGHTS) as Signal[]).filter((s) => scores[s] !== undefined);
+  const weight = present.reduce((sum, s) => sum + WEIGHTS[s], 0);
+  if (!weight) return undefined;
+  return calibrate(present.reduce((sum, s) => sum + WEIGHTS[s] * scores[s]!, 0) / weight);
+}
+
+// Scores every product and sorts best first; ties keep the provider's order.
+// Expects matches already classified (MatchItem.garment).
+export async function rankMatches(matches: MatchItem[], a: Attributes): Promise<MatchItem[]> {
+  const garmentColors = (a.swatches ?? []).slice(0, PRODUCT_COLORS).map((s) => rgbToLab(hexToRgb(s.hex)));
+  const thumbnails = garmentColors.length
+    ? await Promise.all(matches.map((m) => thumbnailColors(m.image)))
+    : matches.map(() => undefined);
+
+  const scored = matches.map((m, i) => ({
+    ...m,
+    match: scoreMatch({
+      category: categoryScore(m, a),
+      brand: brandScore(m, a),
+      color: colorScore(garmentColors, thumbnails[i]),
+      title: titleScore(m, a),
+    }),
+  }));
+  return scored
+    .map((m, i) => ({ m, i }))
+    .sort((x, y) => (y.m.match ?? -1) - (x.m.match ?? -1) || x.i - y.i)
+    .map(({ m }) => m);
+}
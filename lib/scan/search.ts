@@ -0,0 +1,55 @@
+// lib/scan/search.ts
+import { DEFAULT_LIMIT, getShoppingProvider, SearchQuotaExceededError, type ShoppingProvider } from "@/lib/shopping";
+import type { MatchItem, QueryVariant } from "@/type/result";
+import type { PlannedQuery } from "./query";
+
+// Stop falling back once this many distinct products were found
+const ENOUGH_MATCHES = 6;
+
+// What each planned query did, for debug output
+export type SearchRun = { variant: QueryVariant; query: string; found: number; added: number; error?: string };
+
+export type PlanResult = { matches: MatchItem[]; runs: SearchRun[] };
+
+// Catalog and mock items can share a store URL, so the id comes first
+const itemKey = (m: MatchItem) => String(m.id ?? m.url ?? m.title ?? m.name ?? "");
+
+// -------- Running a plan --------
+// Runs the planned queries in order until enough products are found. Each
+// product keeps the variant that found it first. A failing query falls through
+// to the next; only when every query failed is the last error thrown.
+export async function runQueryPlan(
+  plan: PlannedQuery[],
+  provider: ShoppingProvider = getShoppingProvider(),
+  { limit = DEFAULT_LIMIT, enough = ENOUGH_MATCHES } = {}
+): Promise<PlanResult> {
+  const matches: MatchItem[] = [];
+  const runs: SearchRun[] = [];
+  const seen = new Set<string>();
+  let lastError: unknown;
+
+  for (const { variant, query } of plan) {
+    if (matches.length >= enough) break;
+    let found: MatchItem[];
+    try {
+      found = await provider.search(query, { limit });
+    } catch (e: any) {
+      if (e instanceof SearchQuotaExceededError) throw e; // the other queries would fail too
+      lastError = e;
+      runs.push({ variant, query, found: 0, added: 0, error: e?.message ?? String(e) });
+      continue;
+    }
+
+    const fresh = found.filter((m) => {
+      const key = itemKey(m);
+      if (key && seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    matches.push(...fresh.map((m): MatchItem => ({ ...m, variant, source: "shopping" })));
+    runs.push({ variant, query, found: found.length, added: fresh.length });
+  }
+
+  if (lastError && runs.every((r) => r.error)) throw lastError;
+  return { matches: matches.slice(0, limit), runs };
+}
@@ -0,0 +1,105 @@
+// lib/session/index.ts
+// Who a request belongs to: the signed-in user when there is one, otherwise
+// an anonymous visitor id kept in an httpOnly cookie. Whatever a visitor
+// creates is handed to their account when they sign in (lib/auth).
+import { cookies, headers } from "next/headers";
+import { v4 as uuid } from "uuid";
+import { AppError } from "@/lib/api/errors";
+import { authSecret, SESSION_COOKIE, SESSION_HEADER, SESSION_MAX_AGE, signSession } from "@/lib/auth/token";
+import { getDb } from "@/lib/db";
+
+export const VISITOR_COOKIE = "os_visitor";
+const VISITOR_MAX_AGE = 60 * 60 * 24 * 365; // seconds
+
+const cookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge,
+});
+
+// -------- Owner --------
+// Route handlers only: the visitor cookie is set on the response when it's new.
+// Without a working database sessions can't be checked; the request is then
+// treated as a visitor's so scanning still works.
+export async function ownerId(): Promise<string> {
+  const user = await currentUserId().catch((e) => {
+    console.warn("[session] couldn't check the session:", e);
+    return undefined;
+  });
+  return user ?? (await visitorId());
+}
+
+// Visitor ids live in their own namespace ("visitor:<uuid>"), so no cookie
+// value can ever name an account's data
+const VISITOR_PREFIX = "visitor:";
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isUserId = (id: string) => !!getDb().prepare("SELECT 1 FROM users WHERE id = ?").get(id);
+
+// The browser's visitor id when its cookie holds a valid one; never creates one
+export async function existingVisitorId(): Promise<string | undefined> {
+  const value = (await cookies()).get(VISITOR_COOKIE)?.value;
+  if (!value) return undefined;
+  if (value.startsWith(VISITOR_PREFIX) && UUID.test(value.slice(VISITOR_PREFIX.length))) return value;
+  // Cookies from before accounts hold a bare uuid (their rows were prefixed by
+  // migration 4). A bare id that belongs to an account is refused.
+  if (!UUID.test(value)) return undefined;
+  try {
+    return isUserId(value) ? undefined : VISITOR_PREFIX + value;
+  } catch (e) {
+    console.warn("[session] couldn't check the visitor cookie:", e);
+    return undefined;
+  }
+}
+
+export async function visitorId(): Promise<string> {
+  const jar = await cookies();
+  const id = (await existingVisitorId()) ?? VISITOR_PREFIX + uuid();
+  if (jar.get(VISITOR_COOKIE)?.value !== id) jar.set(VISITOR_COOKIE, id, cookieOptions(VISITOR_MAX_AGE));
+  return id;
+}
+
+// -------- Signed-in user --------
+// The middleware has already checked the cookie's signature and expiry and
+// passes the session id on; the row must still exist (signing out deletes it).
+export async function currentUserId(): Promise<string | undefined> {
+  const sessionId = (await headers()).get(SESSION_HEADER);
+  if (!sessionId) return undefined;
+  const row = getDb()
+    .prepare("SELECT user_id FROM sessions WHERE id = ? AND expires_at > ?")
+    .get(sessionId, Date.now()) as { user_id: string } | undefined;
+  return row?.user_id;
+}
+
+export async function requireUserId(): Promise<string> {
+  const id = await currentUserId();
+  if (!id) throw new AppError("UNAUTHORIZED", "Sign in to keep your wishlist across devices");
+  return id;
+}
+
+// -------- Sessions --------
+export async function startSession(userId: string): Promise<void> {
+  const secret = authSecret();
+  if (!secret) throw new AppError("INTERNAL", "Sign-in isn't configured on this server (AUTH_SECRET)");
+
+  const id = uuid();
+  const now = Date.now();
+  const expiresAt = now + SESSION_MAX_AGE * 1000;
+  const db = getDb();
+  db.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(now);
+  db.prepare("INSERT INTO sessions (id, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)").run(
+    id,
+    userId,
+    now,
+    expiresAt
+  );
+  (await cookies()).set(SESSION_COOKIE, await signSession(id, expiresAt, secret), cookieOptions(SESSION_MAX_AGE));
+}
+
+export async function endSession(): Promise<void> {
+  const sessionId = (await headers()).get(SESSION_HEADER);
+  if (sessionId) getDb().prepare("DELETE FROM sessions WHERE id = ?").run(sessionId);
+  (await cookies()).delete(SESSION_COOKIE);
+}
@@ -0,0 +1,138 @@
+// lib/shopping/budget.ts
+// Paid providers (SerpAPI) charge a credit per search. The budget counts
+// searches per UTC day and month and stops spending once either is used up:
+// "cache-only" keeps serving queries that are already cached and fails the
+// rest softly (the scan reports it as a per-garment warning), "refuse" turns
+// every uncached search into a quota error for the whole request.
+import { getCacheStore, type CacheStore } from "@/lib/cache";
+import { createMemoryCacheStore } from "@/lib/cache/memory";
+import { AppError } from "@/lib/api/errors";
+import { SearchQuotaExceededError, type ShoppingProvider } from "./types";
+
+export type BudgetMode = "cache-only" | "refuse";
+export type BudgetPeriod = "day" | "month";
+
+export type BudgetLimits = Partial<Record<BudgetPeriod, number>>; // 0 or absent = unlimited
+
+export type PeriodUsage = {
+  period: BudgetPeriod;
+  key: string;      // "2026-10-19" / "2026-10"
+  used: number;
+  limit?: number;
+  resetsAt: string; // ISO, start of the next period (UTC)
+};
+
+export type BudgetUsage = {
+  provider: string;
+  mode: BudgetMode;
+  exhausted: boolean;
+  periods: PeriodUsage[];
+};
+
+export interface SearchBudget {
+  readonly mode: BudgetMode;
+  // Takes one credit, or throws when the budget is used up
+  reserve(): Promise<void>;
+  // Gives back a credit for a search that failed before it was charged
+  refund(): Promise<void>;
+  usage(): Promise<BudgetUsage>;
+}
+
+// The budget ran out and the provider wasn't called. An AppError with the quota
+// code, but not a SearchQuotaExceededError: in cache-only mode other planned
+// queries may still be answered from the cache.
+export class SearchBudgetExhaustedError extends AppError {
+  constructor(message = "Product search budget is used up; only saved results are available.") {
+    super("SEARCH_QUOTA_EXCEEDED", message);
+    this.name = "SearchBudgetExhaustedError";
+  }
+}
+
+const NAMESPACE = "budget";
+const COUNTER_TTL_MS = 40 * 24 * 60 * 60 * 1000; // outlives a month
+const PERIODS: BudgetPeriod[] = ["day", "month"];
+
+function periodOf(period: BudgetPeriod, now = new Date()): { key: string; resetsAt: Date } {
+  const y = now.getUTCFullYear();
+  const m = now.getUTCMonth();
+  const iso = now.toISOString();
+  return period === "day"
+    ? { key: iso.slice(0, 10), resetsAt: new Date(Date.UTC(y, m, now.getUTCDate() + 1)) }
+    : { key: iso.slice(0, 7), resetsAt: new Date(Date.UTC(y, m + 1, 1)) };
+}
+
+// -------- Budget --------
+// Counters live in the cache store (so fs/sqlite keep them across restarts),
+// or in memory when caching is off. The store has no atomic increment, so
+// every check-and-count runs one at a time through a queue: concurrent
+// searches (one per garment) can't read the same count and overspend.
+// Processes sharing an fs/sqlite store still each have their own queue, so
+// they can together go a few searches over the limit.
+export function createSearchBudget(
+  provider: string,
+  limits: BudgetLimits,
+  mode: BudgetMode = "cache-only",
+  store: CacheStore = getCacheStore() ?? createMemoryCacheStore()
+): SearchBudget {
+  const counterKey = (period: BudgetPeriod) => `${provider}:${period}:${periodOf(period).key}`;
+  const used = async (period: BudgetPeriod) => (await store.get<number>(NAMESPACE, counterKey(period))) ?? 0;
+  const add = async (period: BudgetPeriod, n: number) =>
+    store.set(NAMESPACE, counterKey(period), Math.max(0, (await used(period)) + n), COUNTER_TTL_MS);
+
+  let queue: Promise<unknown> = Promise.resolve();
+  const serially = <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = queue.then(fn);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const usage = async (): Promise<BudgetUsage> => {
+    const periods = await Promise.all(
+      PERIODS.map(async (period): Promise<PeriodUsage> => {
+        const { key, resetsAt } = periodOf(period);
+        return { period, key, used: await used(period), limit: limits[period] || undefined, resetsAt: resetsAt.toISOString() };
+      })
+    );
+    const exhausted = periods.some((p) => p.limit !== undefined && p.used >= p.limit);
+    return { provider, mode, exhausted, periods };
+  };
+
+  return {
+    mode,
+    reserve: () =>
+      serially(async () => {
+        const { exhausted, periods } = await usage();
+        if (exhausted) {
+          const which = periods.find((p) => p.limit !== undefined && p.used >= p.limit)!.period;
+          if (mode === "refuse") {
+            throw new SearchQuotaExceededError(`Product search budget for this ${which} is used up. Please try again later.`);
+          }
+          throw new SearchBudgetExhaustedError(
+            `Product search budget for this ${which} is used up; only saved results are available.`
+          );
+        }
+        await Promise.all(PERIODS.map((p) => add(p, 1)));
+      }),
+    refund: () =>
+      serially(async () => {
+        await Promise.all(PERIODS.map((p) => add(p, -1)));
+      }),
+    usage,
+  };
+}
+
+// Every search the wrapped provider makes goes through the budget first
+export function withBudget(provider: ShoppingProvider, budget: SearchBudget): ShoppingProvider {
+  return {
+    name: provider.name,
+    async search(query, opts) {
+      await budget.reserve();
+      try {
+        return await provider.search(query, opts);
+      } catch (e) {
+        await budget.refund();
+        throw e;
+      }
+    },
+  };
+}
@@ -0,0 +1,31 @@
+// lib/shopping/cached.ts
+import { cacheTtlMs, getCacheStore } from "@/lib/cache";
+import type { MatchItem } from "@/type/result";
+import { DEFAULT_LIMIT, type ShoppingProvider } from "./types";
+
+// "Nike  Hoodie buy" and "nike hoodie buy" are the same search
+const queryKey = (provider: string, query: string, limit: number) =>
+  `${provider}:${limit}:${query.toLowerCase().replace(/\s+/g, " ").trim()}`;
+
+// -------- Query cache --------
+// Answers repeated queries from the cache store ("query" layer) without
+// calling the provider. Wrap it around the budget so cache hits are free.
+export function withQueryCache(provider: ShoppingProvider): ShoppingProvider {
+  return {
+    name: provider.name,
+    async search(query, opts) {
+      const store = getCacheStore();
+      if (!store) return provider.search(query, opts);
+
+      const key = queryKey(provider.name, query, opts?.limit ?? DEFAULT_LIMIT);
+      const cached = await store.get<MatchItem[]>("query", key).catch(() => undefined);
+      if (cached) return cached;
+
+      const matches = await provider.search(query, opts);
+      await store.set("query", key, matches, cacheTtlMs("query")).catch((e) => {
+        console.warn("[cache] couldn't store query entry:", e);
+      });
+      return matches;
+    },
+  };
+}
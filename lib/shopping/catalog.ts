@@ -0,0 +1,89 @@
+// lib/shopping/catalog.ts
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import type { MatchItem } from "@/type/result";
+import { DEFAULT_LIMIT, type ShoppingProvider } from "./types";
+
+// One product in a local catalog. JSON catalogs are an array of these; SQLite
+// catalogs have a `products` table with the same columns (`tags` is a
+// comma-separated string there).
+export type CatalogProduct = {
+  id: string | number;
+  title: string;
+  price?: string | number;
+  store?: string;
+  url?: string;
+  image?: string;
+  brand?: string;
+  category?: string;
+  tags?: string[];
+};
+
+function loadJsonCatalog(file: string): CatalogProduct[] {
+  const json = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(json)) throw new Error(`Catalog ${file} must be a JSON array`);
+  return json;
+}
+
+function loadSqliteCatalog(file: string): CatalogProduct[] {
+  const db = new Database(file, { readonly: true, fileMustExist: true });
+  try {
+    const rows = db
+      .prepare("SELECT id, title, price, store, url, image, brand, category, tags FROM products")
+      .all() as any[];
+    return rows.map((r) => ({
+      ...r,
+      tags: typeof r.tags === "string" ? r.tags.split(",").map((t: string) => t.trim()) : [],
+    }));
+  } finally {
+    db.close();
+  }
+}
+
+function tokenize(s: string): string[] {
+  return s.toLowerCase().split(/[^a-z0-9&'-]+/).filter((t) => t && t !== "buy");
+}
+
+// Simple token overlap; brand and category hits count double
+function scoreProduct(p: CatalogProduct, tokens: string[]): number {
+  const hay = new Set(tokenize([p.title, ...(p.tags ?? [])].join(" ")));
+  const strong = new Set(tokenize([p.brand ?? "", p.category ?? ""].join(" ")));
+  let score = 0;
+  for (const t of tokens) {
+    if (strong.has(t)) score += 2;
+    else if (hay.has(t)) score += 1;
+  }
+  return score;
+}
+
+// -------- Local catalog (JSON or SQLite) --------
+export function createCatalogProvider(catalogPath: string): ShoppingProvider {
+  const file = path.isAbsolute(catalogPath) ? catalogPath : path.join(process.cwd(), catalogPath);
+  const isSqlite = /\.(db|sqlite3?)$/i.test(file);
+  let products: CatalogProduct[] | undefined;
+
+  return {
+    name: "catalog",
+    async search(query, opts) {
+      products ??= isSqlite ? loadSqliteCatalog(file) : loadJsonCatalog(file);
+      const tokens = tokenize(query);
+
+      const matches: MatchItem[] = products
+        .map((p) => ({ p, score: scoreProduct(p, tokens) }))
+        .filter((x) => x.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, opts?.limit ?? DEFAULT_LIMIT)
+        .map(({ p }) => ({
+          id: p.id,
+          title: p.title,
+          price: p.price,
+          store: p.store,
+          url: p.url,
+          image: p.image,
+          match: undefined,
+        }));
+      return matches;
+    },
+  };
+}
@@ -0,0 +1,70 @@
+// lib/shopping/index.ts
+import { createSearchBudget, withBudget, type BudgetMode, type SearchBudget } from "./budget";
+import { withQueryCache } from "./cached";
+import { createCatalogProvider } from "./catalog";
+import { createMockShoppingProvider } from "./mock";
+import { createSerpApiProvider } from "./serpapi";
+import type { ShoppingProvider } from "./types";
+
+export { DEFAULT_LIMIT, SearchQuotaExceededError, type SearchOptions, type ShoppingProvider } from "./types";
+export { SearchBudgetExhaustedError, type BudgetUsage, type SearchBudget } from "./budget";
+
+// SHOPPING_PROVIDER=mock (default) | serpapi | catalog
+// SHOPPING_CATALOG=fixtures/catalog.json   JSON array or .db/.sqlite file (catalog provider)
+// SerpAPI spends credits, so it is only used when explicitly selected, and then
+// behind a query cache and a credit budget:
+// SERPAPI_DAILY_BUDGET=20 / SERPAPI_MONTHLY_BUDGET=250   searches per UTC day / month (0 = no limit)
+// SERPAPI_BUDGET_MODE=cache-only (default) | refuse       what happens once it's used up
+const DEFAULT_CATALOG = "fixtures/catalog.json";
+const DEFAULT_DAILY_BUDGET = 20;
+const DEFAULT_MONTHLY_BUDGET = 250;
+
+let provider: ShoppingProvider | undefined;
+let budget: SearchBudget | undefined;
+
+const numberEnv = (name: string, fallback: number) => {
+  const n = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+function budgetMode(): BudgetMode {
+  const mode = (process.env.SERPAPI_BUDGET_MODE || "cache-only").toLowerCase();
+  if (mode !== "cache-only" && mode !== "refuse") {
+    throw new Error(`Unknown SERPAPI_BUDGET_MODE "${mode}" (expected "cache-only" or "refuse")`);
+  }
+  return mode;
+}
+
+export function getShoppingProvider(): ShoppingProvider {
+  if (provider) return provider;
+
+  const kind = (process.env.SHOPPING_PROVIDER || "mock").toLowerCase();
+  switch (kind) {
+    case "serpapi":
+      budget = createSearchBudget(
+        "serpapi",
+        {
+          day: numberEnv("SERPAPI_DAILY_BUDGET", DEFAULT_DAILY_BUDGET),
+          month: numberEnv("SERPAPI_MONTHLY_BUDGET", DEFAULT_MONTHLY_BUDGET),
+        },
+        budgetMode()
+      );
+      provider = withQueryCache(withBudget(createSerpApiProvider(), budget));
+      break;
+    case "catalog":
+      provider = createCatalogProvider(process.env.SHOPPING_CATALOG || DEFAULT_CATALOG);
+      break;
+    case "mock":
+      provider = createMockShoppingProvider();
+      break;
+    default:
+      throw new Error(`Unknown SHOPPING_PROVIDER "${kind}" (expected "serpapi", "catalog" or "mock")`);
+  }
+  return provider;
+}
+
+// The active provider's credit budget; undefined for free providers
+export function getSearchBudget(): SearchBudget | undefined {
+  getShoppingProvider();
+  return budget;
+}
@@ -0,0 +1,29 @@
+// lib/shopping/mock.ts
+import type { MatchItem } from "@/type/result";
+import { DEFAULT_LIMIT, type ShoppingProvider } from "./types";
+
+const MOCK_STORES = ["Mock Outfitters", "Sample & Co", "Demo Denim", "Placeholder Supply"];
+
+// -------- Mock provider --------
+// Deterministic fake products derived from the query, for UI work and demos.
+export function createMockShoppingProvider(): ShoppingProvider {
+  return {
+    name: "mock",
+    async search(query, opts) {
+      const title = query.replace(/\bbuy\b/gi, "").replace(/\s+/g, " ").trim() || "Item";
+      const count = Math.min(opts?.limit ?? DEFAULT_LIMIT, 6);
+      const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+
+      const matches: MatchItem[] = Array.from({ length: count }, (_, i) => ({
+        id: `mock-${slug}-${i + 1}`,
+        title: `${title} #${i + 1}`,
+        price: 19.99 + i * 10,
+        store: MOCK_STORES[i % MOCK_STORES.length],
+        url: `https://example.com/products/${slug}-${i + 1}`,
+        image: "/placeholder.jpg",
+        match: undefined,
+      }));
+      return matches;
+    },
+  };
+}
@@ -0,0 +1,48 @@
+// lib/shopping/serpapi.ts
+import type { MatchItem } from "@/type/result";
+import { DEFAULT_LIMIT, SearchQuotaExceededError, type ShoppingProvider } from "./types";
+
+// SerpAPI answers 429 when the plan is used up, with "Your account has run out
+// of searches." in `error`. Only that message counts: other errors that mention
+// a limit (bad `num`, rate of requests) aren't the plan running out.
+const QUOTA_MESSAGE = /has run out of searches/i;
+
+// -------- SerpAPI (Google Shopping) --------
+export function createSerpApiProvider(apiKey = process.env.SERPAPI_KEY): ShoppingProvider {
+  return {
+    name: "serpapi",
+    async search(query, opts) {
+      if (!apiKey) throw new Error("Missing SERPAPI_KEY");
+
+      const url = new URL("https://serpapi.com/search.json");
+      url.searchParams.set("engine", "google_shopping");
+      url.searchParams.set("q", query);
+      url.searchParams.set("hl", "en");
+      url.searchParams.set("gl", "us");
+      url.searchParams.set("api_key", apiKey);
+
+      const res = await fetch(url.toString(), { cache: "no-store" });
+      if (!res.ok) {
+        const detail = await res.json().then((j) => String(j?.error ?? ""), () => "");
+        if (res.status === 429 || QUOTA_MESSAGE.test(detail)) throw new SearchQuotaExceededError();
+        throw new Error(`SerpAPI failed: ${res.status}${detail ? ` (${detail})` : ""}`);
+      }
+      const json = await res.json();
+
+      const items = (json.shopping_results ?? []) as any[];
+      const matches: MatchItem[] = items.slice(0, opts?.limit ?? DEFAULT_LIMIT).map((it, i) => ({
+        id: it.product_id ?? it.position ?? i,
+        title: it.title,
+        price:
+          it.price ??
+          (typeof it.extracted_price === "number" ? `$${it.extracted_price.toFixed(2)}` : undefined),
+        store: it.source ?? it.domain,
+        url: it.link,
+        image: it.thumbnail,
+        match: undefined,
+      }));
+
+      return matches;
+    },
+  };
+}
@@ -0,0 +1,23 @@
+// lib/shopping/types.ts
+import { AppError } from "@/lib/api/errors";
+import type { MatchItem } from "@/type/result";
+
+export type SearchOptions = {
+  limit?: number;
+};
+
+// -------- Provider contract --------
+export interface ShoppingProvider {
+  readonly name: string;
+  search(query: string, opts?: SearchOptions): Promise<MatchItem[]>;
+}
+
+export const DEFAULT_LIMIT = 12;
+
+// The provider's plan has no searches left; retrying won't help until it resets
+export class SearchQuotaExceededError extends AppError {
+  constructor(message = "Product search limit reached. Please try again later.") {
+    super("SEARCH_QUOTA_EXCEEDED", message);
+    this.name = "SearchQuotaExceededError";
+  }
+}
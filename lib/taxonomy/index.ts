@@ -0,0 +1,82 @@
+// lib/taxonomy/index.ts
+// Garment taxonomy from data/taxonomy.json: department -> category -> subcategory,
+// plus gender and age dimensions. Plain data, safe to import from client components.
+import data from "@/data/taxonomy.json";
+import { containsTerm, normalizeText } from "@/lib/text/normalize";
+
+export type Subcategory = {
+  id: string;
+  label: string;
+  query: string;      // what goes into a shopping query
+  synonyms: string[]; // whole-word matches in Vision output
+};
+
+export type Category = Subcategory & {
+  objects: string[];  // Vision object names (lowercased) this category can be seen as
+  subcategories: Subcategory[];
+};
+
+export type Department = { id: string; label: string; categories: Category[] };
+
+// Results tabs group departments ("Tops" also holds outerwear and dresses)
+export type TaxonomyTab = { id: string; label: string; departments: string[] };
+
+// Gender / age values share one shape
+export type Dimension = { id: string; query: string; synonyms: string[] };
+
+export type Taxonomy = {
+  tabs: TaxonomyTab[];
+  genders: Dimension[];
+  ages: Dimension[];
+  departments: Department[];
+};
+
+const TAXONOMY = data as Taxonomy;
+
+export const DEPARTMENTS = TAXONOMY.departments;
+export const TABS = TAXONOMY.tabs;
+export const GENDERS = TAXONOMY.genders;
+export const AGES = TAXONOMY.ages;
+
+// Every category in data order (which is also the preference order for ties)
+export const CATEGORIES: Category[] = DEPARTMENTS.flatMap((d) => d.categories);
+
+const CATEGORY_BY_ID = new Map(CATEGORIES.map((c) => [c.id, c]));
+const DEPARTMENT_BY_CATEGORY = new Map(
+  DEPARTMENTS.flatMap((d) => d.categories.map((c) => [c.id, d] as const))
+);
+
+// -------- Lookups --------
+export const findCategory = (id?: string) => (id ? CATEGORY_BY_ID.get(id) : undefined);
+
+export const findSubcategory = (categoryId?: string, id?: string) =>
+  id ? findCategory(categoryId)?.subcategories.find((s) => s.id === id) : undefined;
+
+export const departmentOf = (categoryId?: string) =>
+  categoryId ? DEPARTMENT_BY_CATEGORY.get(categoryId) : undefined;
+
+// Categories a Vision object name can resolve to, best first: categories that
+// list the object earlier in `objects` win, then data order
+export function categoriesForObject(name: string): string[] {
+  const key = name.trim().toLowerCase();
+  return CATEGORIES.filter((c) => c.objects.includes(key))
+    .sort((a, b) => a.objects.indexOf(key) - b.objects.indexOf(key))
+    .map((c) => c.id);
+}
+
+// The category a free-text garment word names ("pants", "cardigan"), if any
+export function categoryForTerm(term: string): Category | undefined {
+  const text = normalizeText(term);
+  if (!text) return undefined;
+  const names = (c: Category) => [...c.synonyms, ...c.subcategories.flatMap((s) => s.synonyms)];
+  return CATEGORIES.find((c) => names(c).some((n) => containsTerm(text, normalizeText(n))));
+}
+
+// The most specific shopping term known for a category/subcategory pair;
+// unknown categories (typed by hand) are used as-is
+export function garmentTerm(categoryId?: string, subcategoryId?: string): string | undefined {
+  return findSubcategory(categoryId, subcategoryId)?.query ?? findCategory(categoryId)?.query ?? categoryId;
+}
+
+export const dimensionQuery = (list: Dimension[], id?: string) =>
+  id ? list.find((d) => d.id === id)?.query : undefined;
@@ -0,0 +1,26 @@
+// lib/text/normalize.ts
+
+// Lowercase, strip accents and apostrophes, keep letters/digits/&
+export function normalizeText(s: string): string {
+  return s
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9&]+/g, " ")
+    .trim();
+}
+
+// Whole-word phrase match on normalized text ("hm" doesn't match "ohm")
+export function containsPhrase(hay: string, phrase: string): boolean {
+  return ` ${hay} `.includes(` ${phrase} `);
+}
+
+// containsPhrase that also accepts a simple plural/singular ("shoe" ~ "shoes")
+export function containsTerm(hay: string, term: string): boolean {
+  return (
+    containsPhrase(hay, term) ||
+    containsPhrase(hay, `${term}s`) ||
+    (term.length > 3 && term.endsWith("s") && containsPhrase(hay, term.slice(0, -1)))
+  );
+}
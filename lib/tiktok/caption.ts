@@ -0,0 +1,82 @@
+// lib/tiktok/caption.ts
+// Creators often say what they're wearing in the caption ("top: zara, pants:
+// aritzia #ootd @levis"). Parsed here into hints the attribute scorer treats
+// as strong evidence.
+import { matchBrandHandle, matchBrands } from "@/lib/brands";
+import { categoryForTerm } from "@/lib/taxonomy";
+
+// "top: zara" -> the top is from Zara
+export type CaptionItem = {
+  category: string; // taxonomy category id
+  brand: string;
+  known: boolean;   // brand is in data/brands.json (otherwise taken as written)
+  text: string;     // the caption fragment it came from
+};
+
+export type CaptionHints = {
+  text: string;
+  hashtags: string[];
+  mentions: string[];
+  brands: string[]; // named anywhere in the caption, not tied to a garment
+  items: CaptionItem[];
+};
+
+const HASHTAG = /#(\w+)/g;
+const MENTION = /@([\w.]+)/g;
+// "top: zara", "pants - aritzia", "jeans from levis", "hoodie by nike"
+const ITEM_PATTERNS = [/^(.{2,24}?)\s*[:\-–—]\s*(.+)$/, /^(.{2,24}?)\s+(?:from|by|is|@)\s+(.+)$/i];
+const MAX_UNKNOWN_BRAND_WORDS = 3;
+// Common answers that aren't brands
+const NOT_BRANDS = new Set(["thrifted", "vintage", "thrift", "old", "linked", "link in bio", "similar", "unknown", "idk", "amazon", "shein dupe"]);
+const NOT_BRAND_START = /^(my|her|his|their|a|an|the)\b/i; // "my mom's", "a gift" (registry brands matched earlier)
+
+const unique = <T>(xs: T[]) => [...new Set(xs)];
+const all = (re: RegExp, text: string) => Array.from(text.matchAll(re), (m) => m[1]);
+
+// The brand a caption value names: a registry brand, a handle, or (for short
+// values) the value itself
+function brandOf(value: string): { brand: string; known: boolean } | undefined {
+  // Tags trailing the value ("aritzia #ootd @levis") belong to the whole caption
+  const head = value.trim().replace(/^(.+?)\s+[#@].*$/, "$1");
+  const cleaned = head.replace(HASHTAG, " ").replace(/[^\w\s'&.@-]/g, " ").replace(/\s+/g, " ").trim();
+  if (!cleaned) return undefined;
+
+  // A handle names one account exactly; plain text may hit several aliases
+  const handle = cleaned.startsWith("@") ? matchBrandHandle(cleaned) : undefined;
+  if (handle) return { brand: handle, known: true };
+  const registry = matchBrands([{ text: cleaned, source: "text" }])[0]?.name;
+  if (registry) return { brand: registry, known: true };
+
+  const plain = cleaned.replace(/^@/, "");
+  if (NOT_BRANDS.has(plain.toLowerCase()) || NOT_BRAND_START.test(plain)) return undefined;
+  if (plain.split(" ").length > MAX_UNKNOWN_BRAND_WORDS) return undefined;
+  return { brand: plain, known: false };
+}
+
+// -------- Parsing --------
+export function parseCaption(text: string): CaptionHints {
+  const hashtags = unique(all(HASHTAG, text).map((t) => t.toLowerCase()));
+  const mentions = unique(all(MENTION, text).map((m) => m.toLowerCase().replace(/\.$/, "")));
+
+  // One "<garment> <sep> <brand>" per comma/line/pipe-separated fragment
+  const items: CaptionItem[] = [];
+  for (const fragment of text.split(/[,;|\n]+/)) {
+    const part = fragment.trim();
+    for (const re of ITEM_PATTERNS) {
+      const m = part.match(re);
+      const category = m && categoryForTerm(m[1]);
+      const brand = m && category ? brandOf(m[2]) : undefined;
+      if (category && brand) {
+        items.push({ category: category.id, ...brand, text: part });
+        break;
+      }
+    }
+  }
+
+  const brands = unique([
+    ...matchBrands([{ text: text.replace(HASHTAG, " ").replace(MENTION, " "), source: "text" }]).map((b) => b.name),
+    ...[...hashtags, ...mentions].map(matchBrandHandle).filter((b): b is string => !!b),
+  ]);
+
+  return { text, hashtags, mentions, brands, items };
+}
@@ -0,0 +1,68 @@
+// lib/tiktok/index.ts
+import { combineCacheStatus, scanImage, type ScanOptions } from "@/lib/scan";
+import { dedupeFrames } from "@/lib/video/dedupe";
+import { frameThumbnail, sampleFrames } from "@/lib/video/frames";
+import { pickPersonFrames } from "@/lib/video/person";
+import type { CacheStatus, FrameResult } from "@/type/result";
+import { createLocalTikTokFetcher } from "./local";
+import type { TikTokFetcher, TikTokLink } from "./types";
+import { createWebTikTokFetcher } from "./web";
+
+export { parseTikTokUrl } from "./url";
+export { TikTokUnavailableError, type TikTokFetcher, type TikTokLink } from "./types";
+
+// TIKTOK_FETCHER=web (default) | local
+// TIKTOK_VIDEO_DIR=fixtures/tiktok   MP4s served by the local fetcher
+const DEFAULT_VIDEO_DIR = "fixtures/tiktok";
+const FRAMES_TO_SCAN = 3;
+
+let fetcher: TikTokFetcher | undefined;
+
+export function getTikTokFetcher(): TikTokFetcher {
+  if (fetcher) return fetcher;
+
+  const kind = (process.env.TIKTOK_FETCHER || "web").toLowerCase();
+  switch (kind) {
+    case "web":
+      fetcher = createWebTikTokFetcher();
+      break;
+    case "local":
+      fetcher = createLocalTikTokFetcher(process.env.TIKTOK_VIDEO_DIR || DEFAULT_VIDEO_DIR);
+      break;
+    default:
+      throw new Error(`Unknown TIKTOK_FETCHER "${kind}" (expected "web" or "local")`);
+  }
+  return fetcher;
+}
+
+export type TikTokScan = {
+  frames: FrameResult[];
+  sampled: number;
+  provider?: string;
+  warnings: string[];
+  cache?: CacheStatus;
+};
+
+// -------- Ingestion --------
+// Link -> video -> evenly sampled frames, minus near-duplicates -> the frames
+// where a person is most visible -> the regular per-garment scan for each.
+export async function ingestTikTok(link: TikTokLink, opts: ScanOptions = {}): Promise<TikTokScan> {
+  const video = await getTikTokFetcher().fetchVideo(link);
+  const sampled = await sampleFrames(video);
+  const best = await pickPersonFrames(await dedupeFrames(sampled), FRAMES_TO_SCAN);
+
+  let provider: string | undefined;
+  const warnings = new Set<string>();
+  const cache: CacheStatus[] = [];
+  const frames = await Promise.all(
+    best.map(async (f): Promise<FrameResult> => {
+      const scan = await scanImage(f.image, opts);
+      provider = scan.provider;
+      scan.warnings.forEach((w) => warnings.add(w));
+      cache.push(scan.cache);
+      return { index: f.index, time: f.time, image: await frameThumbnail(f.image), garments: scan.garments };
+    })
+  );
+
+  return { frames, sampled: sampled.length, provider, warnings: [...warnings], cache: combineCacheStatus(cache) };
+}
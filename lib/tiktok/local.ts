@@ -0,0 +1,25 @@
+// lib/tiktok/local.ts
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { TikTokFetcher } from "./types";
+
+// -------- Local fetcher (offline / CI) --------
+// Serves `<dir>/<videoId>.mp4`, or `<dir>/default.mp4` for any other link.
+export function createLocalTikTokFetcher(dir: string): TikTokFetcher {
+  const root = path.isAbsolute(dir) ? dir : path.join(process.cwd(), dir);
+
+  return {
+    name: "local",
+    async fetchVideo(link) {
+      const candidates = [link.videoId && `${link.videoId}.mp4`, "default.mp4"].filter(Boolean) as string[];
+      for (const name of candidates) {
+        try {
+          return await fs.readFile(path.join(root, name));
+        } catch {
+          // try next
+        }
+      }
+      throw new Error(`No local TikTok video for ${link.url} in ${root}`);
+    },
+  };
+}
@@ -0,0 +1,170 @@
+// lib/tiktok/overlay.ts
+// TikTok screenshots carry app chrome (tabs, like/comment counts, caption,
+// username) that Vision happily reads as text and colors. When an image looks
+// like a TikTok screenshot, those regions are blurred out before analysis and
+// OCR tokens inside them are dropped.
+import sharp from "sharp";
+import { uprightSize } from "@/lib/image/dimensions";
+import type { AnnotateImageResponse } from "@/lib/vision";
+import type { BoundingBox } from "@/type/result";
+
+export type OverlayKind = "top-tabs" | "action-rail" | "caption";
+export type OverlayRegion = BoundingBox & { kind: OverlayKind };
+
+// Normalized to a 9:16 portrait screenshot
+export const TIKTOK_OVERLAY: OverlayRegion[] = [
+  { kind: "top-tabs", x: 0, y: 0, width: 1, height: 0.07 },
+  { kind: "action-rail", x: 0.85, y: 0.3, width: 0.15, height: 0.55 },
+  { kind: "caption", x: 0, y: 0.8, width: 0.85, height: 0.2 }, // also the progress bar and nav bar
+];
+
+const MIN_ASPECT = 1.6; // height / width; TikTok is 9:16 portrait
+const MIN_MARKER_REGIONS = 2;
+const MASK_BLUR = 30;
+
+// Text that only shows up in TikTok's chrome, per region
+const MARKERS: Record<OverlayKind, RegExp> = {
+  "top-tabs": /^(for|you|following|friends|explore|live|stem)$/i,
+  "action-rail": /^\d+(\.\d+)?[km]?$/i, // like / comment / share counts
+  caption: /^[@#]\w|^♬/,
+};
+
+type Word = { text: string; box: BoundingBox };
+
+const inside = (x: number, y: number, r: BoundingBox) =>
+  x >= r.x && x <= r.x + r.width && y >= r.y && y <= r.y + r.height;
+
+type TextAnnotation = NonNullable<AnnotateImageResponse["textAnnotations"]>[number];
+
+function wordBox(t: TextAnnotation, width: number, height: number): BoundingBox | undefined {
+  const pts = t.boundingPoly?.vertices ?? [];
+  if (!pts.length) return undefined;
+  const xs = pts.map((p) => (p.x ?? 0) / width);
+  const ys = pts.map((p) => (p.y ?? 0) / height);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// Word annotations (everything after the full-text block) as normalized boxes
+function words(anns: TextAnnotation[], width: number, height: number): Word[] {
+  return anns.flatMap((t) => {
+    const box = wordBox(t, width, height);
+    return box && t.description ? [{ text: t.description, box }] : [];
+  });
+}
+
+const centre = (b: BoundingBox) => ({ cx: b.x + b.width / 2, cy: b.y + b.height / 2 });
+
+// Words back into text, one line per row, left to right
+function joinRows(list: Word[]): string {
+  const rows: Word[][] = [];
+  for (const w of [...list].sort((a, b) => a.box.y - b.box.y)) {
+    const row = rows.find((r) => Math.abs(centre(r[0].box).cy - centre(w.box).cy) < r[0].box.height / 2);
+    if (row) row.push(w);
+    else rows.push([w]);
+  }
+  return rows.map((r) => r.sort((a, b) => a.box.x - b.box.x).map((w) => w.text).join(" ")).join("\n");
+}
+
+// -------- Detection --------
+// A tall image with TikTok-only text in at least two of the overlay regions
+export async function detectTikTokOverlay(image: Buffer, text: AnnotateImageResponse): Promise<OverlayRegion[]> {
+  const { width, height } = uprightSize(await sharp(image).metadata());
+  if (!width || !height || height / width < MIN_ASPECT) return [];
+
+  const found = new Set<OverlayKind>();
+  for (const w of words((text.textAnnotations ?? []).slice(1), width, height)) {
+    const { cx, cy } = centre(w.box);
+    for (const r of TIKTOK_OVERLAY) {
+      if (inside(cx, cy, r) && MARKERS[r.kind].test(w.text)) found.add(r.kind);
+    }
+  }
+  return found.size >= MIN_MARKER_REGIONS ? TIKTOK_OVERLAY : [];
+}
+
+// The OCR text inside the detected regions of one kind, e.g. the caption
+export async function overlayText(
+  image: Buffer,
+  text: AnnotateImageResponse,
+  regions: OverlayRegion[],
+  kind: OverlayKind
+): Promise<string> {
+  const of = regions.filter((r) => r.kind === kind);
+  if (!of.length) return "";
+  const { width, height } = uprightSize(await sharp(image).metadata());
+  if (!width || !height) return "";
+
+  const found = words((text.textAnnotations ?? []).slice(1), width, height).filter((w) => {
+    const { cx, cy } = centre(w.box);
+    return of.some((r) => inside(cx, cy, r));
+  });
+  return joinRows(found);
+}
+
+// -------- Masking --------
+// Blurs each region rather than painting it over, so the image's colors and
+// any garment reaching into a region survive but the text and icons don't.
+export async function maskOverlay(image: Buffer, regions: BoundingBox[]): Promise<Buffer> {
+  if (!regions.length) return image;
+  const upright = await sharp(image).rotate().toBuffer();
+  const { width, height } = uprightSize(await sharp(upright).metadata());
+
+  const patches = await Promise.all(
+    regions.map(async (r) => {
+      const left = Math.floor(r.x * width);
+      const top = Math.floor(r.y * height);
+      const w = Math.max(1, Math.min(width - left, Math.round(r.width * width)));
+      const h = Math.max(1, Math.min(height - top, Math.round(r.height * height)));
+      const input = await sharp(upright).extract({ left, top, width: w, height: h }).blur(MASK_BLUR).toBuffer();
+      return { input, left, top };
+    })
+  );
+  return sharp(upright).composite(patches).jpeg({ quality: 90 }).toBuffer();
+}
+
+// The regions re-expressed in the coordinates of a sub-box (a garment crop),
+// clipped to it; regions that miss the box are dropped
+export function relativeTo(regions: OverlayRegion[], box: BoundingBox): OverlayRegion[] {
+  return regions.flatMap((r) => {
+    const x0 = Math.max(r.x, box.x);
+    const y0 = Math.max(r.y, box.y);
+    const x1 = Math.min(r.x + r.width, box.x + box.width);
+    const y1 = Math.min(r.y + r.height, box.y + box.height);
+    if (x1 <= x0 || y1 <= y0) return [];
+    return [{
+      kind: r.kind,
+      x: (x0 - box.x) / box.width,
+      y: (y0 - box.y) / box.height,
+      width: (x1 - x0) / box.width,
+      height: (y1 - y0) / box.height,
+    }];
+  });
+}
+
+// -------- OCR filtering --------
+// Drops word annotations centred in a region and rebuilds the full-text block
+// (textAnnotations[0]) from the words that are left, one line per text row.
+export async function stripOverlayText(
+  image: Buffer,
+  text: AnnotateImageResponse,
+  regions: BoundingBox[]
+): Promise<AnnotateImageResponse> {
+  const anns = text.textAnnotations ?? [];
+  if (!regions.length || anns.length < 2) return text;
+
+  const { width, height } = uprightSize(await sharp(image).metadata());
+  if (!width || !height) return text;
+
+  const kept = anns.slice(1).filter((t) => {
+    const box = wordBox(t, width, height);
+    if (!box) return true;
+    const { cx, cy } = centre(box);
+    return !regions.some((r) => inside(cx, cy, r));
+  });
+  // fullTextAnnotation would still hold the dropped words
+  if (!kept.length) return { ...text, textAnnotations: [], fullTextAnnotation: null };
+
+  const description = joinRows(words(kept, width, height));
+  return { ...text, textAnnotations: [{ ...anns[0], description }, ...kept], fullTextAnnotation: null };
+}
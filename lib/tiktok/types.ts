@@ -0,0 +1,21 @@
+// lib/tiktok/types.ts
+import { AppError } from "@/lib/api/errors";
+
+// Resolves a TikTok link to the raw video bytes
+export interface TikTokFetcher {
+  readonly name: string;
+  fetchVideo(link: TikTokLink): Promise<Buffer>;
+}
+
+export type TikTokLink = {
+  url: string;
+  videoId?: string; // absent for short links (vm./vt.tiktok.com) until resolved
+};
+
+// TikTok couldn't be reached, refused us or answered with something unreadable
+export class TikTokUnavailableError extends AppError {
+  constructor(message = "TikTok isn't responding right now. Please try again in a minute.") {
+    super("TIKTOK_UNAVAILABLE", message);
+    this.name = "TikTokUnavailableError";
+  }
+}
@@ -0,0 +1,18 @@
+// lib/tiktok/url.ts
+import type { TikTokLink } from "./types";
+
+const TIKTOK_HOSTS = /(^|\.)tiktok\.com$/i;
+
+// Accepts www/m/vm/vt.tiktok.com links; returns undefined for anything else
+export function parseTikTokUrl(input: string): TikTokLink | undefined {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return undefined;
+  }
+  if (!/^https?:$/.test(url.protocol) || !TIKTOK_HOSTS.test(url.hostname)) return undefined;
+
+  const videoId = url.pathname.match(/\/(?:video|v)\/(\d+)/)?.[1];
+  return { url: url.toString(), videoId };
+}
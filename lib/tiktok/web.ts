@@ -0,0 +1,102 @@
+// lib/tiktok/web.ts
+import { AppError } from "@/lib/api/errors";
+import { MAX_VIDEO_BYTES } from "@/lib/api/limits";
+import { readCapped } from "@/lib/net/public";
+import { TikTokUnavailableError, type TikTokFetcher } from "./types";
+
+const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36";
+
+// A stalled TikTok must not hold the request open; the video budget covers
+// reading the whole body, not just the headers
+const PAGE_TIMEOUT_MS = 10_000;
+const VIDEO_TIMEOUT_MS = 60_000;
+
+// Script contents that aren't valid JSON count as absent
+function parseScript(html: string, id: string): any {
+  const text = html.match(new RegExp(`<script[^>]+id="${id}"[^>]*>([\\s\\S]*?)<\\/script>`))?.[1];
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// TikTok embeds the post as JSON in the page; the layout has moved between
+// these two script tags over time, so check both.
+function findPlayAddr(html: string, videoId?: string): string | undefined {
+  const universal = parseScript(html, "__UNIVERSAL_DATA_FOR_REHYDRATION__");
+  if (universal) {
+    const video = universal.__DEFAULT_SCOPE__?.["webapp.video-detail"]?.itemInfo?.itemStruct?.video;
+    const addr = video?.playAddr || video?.downloadAddr;
+    if (addr) return addr;
+  }
+
+  const sigi = parseScript(html, "SIGI_STATE");
+  if (sigi) {
+    const items = sigi.ItemModule ?? {};
+    const item = (videoId && items[videoId]) || Object.values<any>(items)[0];
+    const addr = item?.video?.playAddr || item?.video?.downloadAddr;
+    if (addr) return addr;
+  }
+  return undefined;
+}
+
+// Keep only name=value pairs so the video CDN sees the same session as the page
+function cookieHeader(res: Response): string {
+  const cookies = (res.headers as any).getSetCookie?.() ?? [];
+  return cookies.map((c: string) => c.split(";")[0]).join("; ");
+}
+
+// -------- Web fetcher --------
+// Loads the public post page, reads the video address out of it and
+// downloads the MP4. Short links are followed by fetch's redirect handling.
+// A link to nothing (removed or private post, no video on the page) is a bad
+// request; TikTok failing or timing out is TIKTOK_UNAVAILABLE.
+export function createWebTikTokFetcher(): TikTokFetcher {
+  const get = (url: string, init: RequestInit) =>
+    fetch(url, { ...init, cache: "no-store" }).catch((e: unknown) => {
+      console.warn(`[tiktok] fetching ${url} failed:`, e);
+      throw new TikTokUnavailableError();
+    });
+
+  return {
+    name: "web",
+    async fetchVideo(link) {
+      const page = await get(link.url, {
+        headers: { "user-agent": USER_AGENT, accept: "text/html" },
+        redirect: "follow",
+        signal: AbortSignal.timeout(PAGE_TIMEOUT_MS),
+      });
+      if (page.status === 404) throw new AppError("BAD_REQUEST", "That TikTok doesn't exist or was removed");
+      if (!page.ok) {
+        console.warn(`[tiktok] page failed: ${page.status}`);
+        throw new TikTokUnavailableError();
+      }
+
+      const videoId = link.videoId ?? page.url.match(/\/video\/(\d+)/)?.[1];
+      const html = await page.text().catch(() => {
+        throw new TikTokUnavailableError();
+      });
+      const playAddr = findPlayAddr(html, videoId);
+      if (!playAddr) throw new AppError("BAD_REQUEST", "Couldn't find a video on that TikTok page");
+
+      const video = await get(playAddr, {
+        headers: { "user-agent": USER_AGENT, referer: page.url, cookie: cookieHeader(page) },
+        signal: AbortSignal.timeout(VIDEO_TIMEOUT_MS),
+      });
+      if (!video.ok) {
+        console.warn(`[tiktok] video download failed: ${video.status}`);
+        throw new TikTokUnavailableError();
+      }
+
+      // Stops reading past the cap, whether or not content-length says so up front
+      const buf = await readCapped(video, MAX_VIDEO_BYTES).catch(() => {
+        throw new TikTokUnavailableError();
+      });
+      if (!buf) throw new AppError("FILE_TOO_LARGE", "TikTok video is too large to process");
+      return buf;
+    },
+  };
+}
@@ -0,0 +1,19 @@
+// lib/video/dedupe.ts
+import { dHash, hammingDistance } from "@/lib/image/hash";
+import type { VideoFrame } from "./frames";
+
+// dHash bits that may differ for two frames to still count as the same shot
+const SAME_SHOT_DISTANCE = 6;
+
+// -------- Near-duplicate removal --------
+// Drops frames that look like an already kept frame (static shots, talking
+// heads), keeping the first of each run. Order is preserved.
+export async function dedupeFrames(frames: VideoFrame[], maxDistance = SAME_SHOT_DISTANCE): Promise<VideoFrame[]> {
+  const kept: { frame: VideoFrame; hash: string }[] = [];
+  for (const frame of frames) {
+    const hash = await dHash(frame.image);
+    if (kept.some((k) => hammingDistance(k.hash, hash) <= maxDistance)) continue;
+    kept.push({ frame, hash });
+  }
+  return kept.map((k) => k.frame);
+}
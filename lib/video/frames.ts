@@ -0,0 +1,109 @@
+// lib/video/frames.ts
+import { spawn } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import ffmpegInstaller from "@ffmpeg-installer/ffmpeg";
+import sharp from "sharp";
+import { AppError } from "@/lib/api/errors";
+
+// One still pulled out of a video
+export type VideoFrame = {
+  index: number;
+  time: number; // seconds from start
+  image: Buffer; // JPEG
+};
+
+export type SampleOptions = {
+  maxFrames?: number;
+  maxDimension?: number; // long edge of each frame, px
+};
+
+const DEFAULT_MAX_FRAMES = 12;
+const THUMB_SIZE = 240;
+const DEFAULT_MAX_DIMENSION = 1080;
+const FFMPEG_TIMEOUT_MS = 60_000;
+
+const unreadable = () => new AppError("UNSUPPORTED_FORMAT", "Couldn't read that video. Upload an MP4, MOV or WebM file.");
+
+// FFMPEG_PATH overrides the bundled binary (e.g. a system ffmpeg)
+const ffmpegPath = () => process.env.FFMPEG_PATH || ffmpegInstaller.path;
+
+function runFfmpeg(args: string[]): Promise<{ code: number; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(ffmpegPath(), ["-hide_banner", "-nostdin", ...args]);
+    let stderr = "";
+    const timer = setTimeout(() => proc.kill("SIGKILL"), FFMPEG_TIMEOUT_MS);
+    proc.stderr.on("data", (d) => (stderr += d.toString()));
+    proc.on("error", (e) => {
+      clearTimeout(timer);
+      reject(e);
+    });
+    proc.on("close", (code) => {
+      clearTimeout(timer);
+      resolve({ code: code ?? -1, stderr });
+    });
+  });
+}
+
+// ffmpeg prints "Duration: 00:00:15.23" for `-i` even without an output
+async function probeDuration(file: string): Promise<number | undefined> {
+  const { stderr } = await runFfmpeg(["-i", file]);
+  const m = stderr.match(/Duration:\s*(\d+):(\d+):(\d+(?:\.\d+)?)/);
+  if (!m) return undefined;
+  return Number(m[1]) * 3600 + Number(m[2]) * 60 + Number(m[3]);
+}
+
+// -------- Frame sampling --------
+// Spreads up to `maxFrames` stills evenly across the video.
+export async function sampleFrames(video: Buffer, opts: SampleOptions = {}): Promise<VideoFrame[]> {
+  const maxFrames = opts.maxFrames ?? DEFAULT_MAX_FRAMES;
+  const maxDim = opts.maxDimension ?? DEFAULT_MAX_DIMENSION;
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "outfit-frames-"));
+  try {
+    const input = path.join(dir, "input");
+    await fs.writeFile(input, video);
+
+    const duration = await probeDuration(input);
+    if (!duration) throw unreadable();
+
+    // Sample in the middle of each slot so we skip black first/last frames
+    const interval = duration / maxFrames;
+    const { code, stderr } = await runFfmpeg([
+      "-ss", String(interval / 2),
+      "-i", input,
+      "-vf", `fps=1/${interval.toFixed(3)},scale='min(${maxDim},iw)':'min(${maxDim},ih)':force_original_aspect_ratio=decrease`,
+      "-frames:v", String(maxFrames),
+      "-q:v", "3",
+      path.join(dir, "frame-%03d.jpg"),
+    ]);
+    // -1 is our timeout killing it; any other exit is ffmpeg unable to decode the upload
+    if (code === -1) throw new Error("ffmpeg timed out sampling frames");
+    if (code !== 0) {
+      console.warn(`[video] ffmpeg failed (${code}): ${stderr.split("\n").slice(-3).join(" ")}`);
+      throw unreadable();
+    }
+
+    const files = (await fs.readdir(dir)).filter((f) => f.startsWith("frame-")).sort();
+    return Promise.all(
+      files.map(async (f, index) => ({
+        index,
+        time: Number((interval / 2 + index * interval).toFixed(2)),
+        image: await fs.readFile(path.join(dir, f)),
+      }))
+    );
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Small preview for result lists
+export async function frameThumbnail(image: Buffer): Promise<string> {
+  const jpg = await sharp(image).resize(THUMB_SIZE, THUMB_SIZE, { fit: "inside" }).jpeg({ quality: 70 }).toBuffer();
+  return toDataUrl(jpg);
+}
+
+export function toDataUrl(jpeg: Buffer): string {
+  return `data:image/jpeg;base64,${jpeg.toString("base64")}`;
+}
@@ -0,0 +1,40 @@
+// lib/video/person.ts
+import { getVisionProvider } from "@/lib/vision";
+import type { VideoFrame } from "./frames";
+
+export type RankedFrame = VideoFrame & { personScore: number };
+
+// How much of the frame a confidently detected person fills (0..1). A full-body
+// shot scores higher than a face close-up or an empty room.
+function personScore(objects: any[]): number {
+  let best = 0;
+  for (const o of objects) {
+    if (o.name?.toLowerCase() !== "person") continue;
+    const pts: any[] = o.boundingPoly?.normalizedVertices ?? [];
+    if (!pts.length) continue;
+    const xs = pts.map((p) => p.x ?? 0);
+    const ys = pts.map((p) => p.y ?? 0);
+    const area = (Math.max(...xs) - Math.min(...xs)) * (Math.max(...ys) - Math.min(...ys));
+    best = Math.max(best, area * (o.score ?? 0));
+  }
+  return best;
+}
+
+// -------- Frame selection --------
+// Keeps the `topK` frames where a person is most visible, in video order.
+// Frames without any person are dropped.
+export async function pickPersonFrames(frames: VideoFrame[], topK = 3): Promise<RankedFrame[]> {
+  const vision = getVisionProvider();
+  const ranked = await Promise.all(
+    frames.map(async (f) => {
+      const res = await vision.objectLocalization(f.image);
+      return { ...f, personScore: personScore(res.localizedObjectAnnotations ?? []) };
+    })
+  );
+
+  return ranked
+    .filter((f) => f.personScore > 0)
+    .sort((a, b) => b.personScore - a.personScore)
+    .slice(0, topK)
+    .sort((a, b) => a.time - b.time);
+}
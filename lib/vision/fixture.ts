@@ -0,0 +1,97 @@
+// lib/vision/fixture.ts
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { AnnotateImageResponse, VisionFeature, VisionProvider } from "./types";
+
+// A fixture is one merged AnnotateImageResponse per image, stored as
+// `<sha256-of-image>.json`. `default.json` is replayed for unknown images.
+const DEFAULT_FIXTURE = "default.json";
+
+// Which response fields each feature call is responsible for
+const FEATURE_FIELDS: Record<VisionFeature, (keyof AnnotateImageResponse)[]> = {
+  logoDetection: ["logoAnnotations"],
+  labelDetection: ["labelAnnotations"],
+  textDetection: ["textAnnotations", "fullTextAnnotation"],
+  webDetection: ["webDetection"],
+  objectLocalization: ["localizedObjectAnnotations"],
+  imageProperties: ["imagePropertiesAnnotation"],
+};
+
+export function fixtureKey(image: Buffer): string {
+  return createHash("sha256").update(image).digest("hex");
+}
+
+function resolveDir(dir: string) {
+  return path.isAbsolute(dir) ? dir : path.join(process.cwd(), dir);
+}
+
+function readFixture(file: string): AnnotateImageResponse | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+function pick(res: AnnotateImageResponse, feature: VisionFeature): AnnotateImageResponse {
+  const out: AnnotateImageResponse = {};
+  for (const field of FEATURE_FIELDS[feature]) {
+    if (res[field] != null) (out as any)[field] = res[field];
+  }
+  return out;
+}
+
+// -------- Replay provider (offline / CI) --------
+export function createFixtureVisionProvider(dir: string): VisionProvider {
+  const root = resolveDir(dir);
+
+  const load = (image: Buffer): AnnotateImageResponse => {
+    const res =
+      readFixture(path.join(root, `${fixtureKey(image)}.json`)) ??
+      readFixture(path.join(root, DEFAULT_FIXTURE));
+    if (!res) throw new Error(`No Vision fixture for image in ${root}`);
+    return res;
+  };
+
+  const replay = (feature: VisionFeature) => async (image: Buffer) => pick(load(image), feature);
+
+  return {
+    name: "fixture",
+    logoDetection: replay("logoDetection"),
+    labelDetection: replay("labelDetection"),
+    textDetection: replay("textDetection"),
+    webDetection: replay("webDetection"),
+    objectLocalization: replay("objectLocalization"),
+    imageProperties: replay("imageProperties"),
+    getProjectId: async () => undefined,
+  };
+}
+
+// -------- Recorder --------
+// Wraps a live provider and merges each feature response into the image's
+// fixture file, so a real scan can be replayed later by the fixture provider.
+export function withFixtureRecording(inner: VisionProvider, dir: string): VisionProvider {
+  const root = resolveDir(dir);
+
+  const record = (feature: VisionFeature) => async (image: Buffer) => {
+    const res = await inner[feature](image);
+    try {
+      fs.mkdirSync(root, { recursive: true });
+      const file = path.join(root, `${fixtureKey(image)}.json`);
+      const merged = { ...readFixture(file), ...pick(res, feature) };
+      fs.writeFileSync(file, JSON.stringify(merged, null, 2));
+    } catch (e) {
+      console.warn("[vision] failed to record fixture:", e);
+    }
+    return res;
+  };
+
+  return {
+    name: `${inner.name}+record`,
+    logoDetection: record("logoDetection"),
+    labelDetection: record("labelDetection"),
+    textDetection: record("textDetection"),
+    webDetection: record("webDetection"),
+    objectLocalization: record("objectLocalization"),
+    imageProperties: record("imageProperties"),
+    getProjectId: () => inner.getProjectId(),
+  };
+}
@@ -0,0 +1,83 @@
+// lib/vision/google.ts
+import vision from "@google-cloud/vision";
+import path from "node:path";
+import { AppError } from "@/lib/api/errors";
+import { VisionUnavailableError, type AnnotateImageResponse, type VisionProvider } from "./types";
+
+// gRPC status codes meaning the request (the image) was at fault rather than
+// the service: INVALID_ARGUMENT, OUT_OF_RANGE
+const CLIENT_ERROR_CODES = new Set([3, 11]);
+
+// -------- Boot Vision client (supports 3 auth methods) --------
+function getVisionClient() {
+  // 1) Raw JSON in env var
+  const raw = process.env.GOOGLE_CLOUD_CREDENTIALS;
+  if (raw) {
+    try {
+      return new vision.ImageAnnotatorClient({ credentials: JSON.parse(raw) });
+    } catch (e) {
+      console.warn("Invalid GOOGLE_CLOUD_CREDENTIALS JSON:", e);
+    }
+  }
+
+  // 2) Base64 JSON in env var
+  const b64 = process.env.GCP_KEY_B64;
+  if (b64) {
+    try {
+      const json = Buffer.from(b64, "base64").toString("utf8");
+      return new vision.ImageAnnotatorClient({ credentials: JSON.parse(json) });
+    } catch (e) {
+      console.warn("Invalid GCP_KEY_B64 base64/JSON:", e);
+    }
+  }
+
+  // 3) Local file path (dev)
+  const keyPath = process.env.GOOGLE_APPLICATION_CREDENTIALS || "vision-key.json";
+  return new vision.ImageAnnotatorClient({
+    keyFilename: path.isAbsolute(keyPath) ? keyPath : path.join(process.cwd(), keyPath),
+  });
+}
+
+// -------- Google Cloud Vision provider --------
+export function createGoogleVisionProvider(): VisionProvider {
+  const client = getVisionClient();
+
+  // Optional methods on some versions of the SDK – guard them. A failure comes
+  // back either thrown (the whole call) or in the response's `error` (this
+  // image). An image Vision refuses (bad or empty crop, unreadable data) is the
+  // upload's fault and surfaces as UNSUPPORTED_FORMAT; any other failure (bad
+  // credentials, billing, quota, outage) means no scan can work, so it
+  // surfaces as VISION_UNAVAILABLE.
+  const failure = (code: unknown) =>
+    typeof code === "number" && CLIENT_ERROR_CODES.has(code)
+      ? new AppError("UNSUPPORTED_FORMAT", "Image analysis couldn't read that image. Try another screenshot.")
+      : new VisionUnavailableError();
+
+  const call = async (method: string, image: Buffer): Promise<AnnotateImageResponse> => {
+    const fn = (client as any)[method];
+    if (typeof fn !== "function") return {};
+    let res: AnnotateImageResponse | undefined;
+    try {
+      [res] = await fn.call(client, { image: { content: image } });
+    } catch (e: unknown) {
+      console.error(`[vision] ${method} failed:`, e);
+      throw failure(e instanceof Object && "code" in e ? e.code : undefined);
+    }
+    if (res?.error?.code) {
+      console.error(`[vision] ${method} failed for this image:`, res.error.message);
+      throw failure(res.error.code);
+    }
+    return res ?? {};
+  };
+
+  return {
+    name: "google",
+    logoDetection: (image) => call("logoDetection", image),
+    labelDetection: (image) => call("labelDetection", image),
+    textDetection: (image) => call("textDetection", image),
+    webDetection: (image) => call("webDetection", image),
+    objectLocalization: (image) => call("objectLocalization", image),
+    imageProperties: (image) => call("imageProperties", image),
+    getProjectId: () => client.getProjectId().catch(() => undefined),
+  };
+}
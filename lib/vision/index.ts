@@ -0,0 +1,33 @@
+// lib/vision/index.ts
+import { createFixtureVisionProvider, withFixtureRecording } from "./fixture";
+import { createGoogleVisionProvider } from "./google";
+import type { VisionProvider } from "./types";
+
+export { VisionUnavailableError, type AnnotateImageResponse, type VisionProvider } from "./types";
+
+// VISION_PROVIDER=google (default) | fixture
+// VISION_FIXTURE_DIR=fixtures/vision   where fixtures are read from / recorded to
+// VISION_RECORD=1                      record live Google responses as fixtures
+const DEFAULT_FIXTURE_DIR = "fixtures/vision";
+
+let provider: VisionProvider | undefined;
+
+export function getVisionProvider(): VisionProvider {
+  if (provider) return provider;
+
+  const kind = (process.env.VISION_PROVIDER || "google").toLowerCase();
+  const fixtureDir = process.env.VISION_FIXTURE_DIR || DEFAULT_FIXTURE_DIR;
+
+  switch (kind) {
+    case "fixture":
+      provider = createFixtureVisionProvider(fixtureDir);
+      break;
+    case "google":
+      provider = createGoogleVisionProvider();
+      if (process.env.VISION_RECORD === "1") provider = withFixtureRecording(provider, fixtureDir);
+      break;
+    default:
+      throw new Error(`Unknown VISION_PROVIDER "${kind}" (expected "google" or "fixture")`);
+  }
+  return provider;
+}
@@ -0,0 +1,30 @@
+// lib/vision/types.ts
+import type { protos } from "@google-cloud/vision";
+import { AppError } from "@/lib/api/errors";
+
+// Same shape Google returns per image; fixtures are recorded in this format too
+export type AnnotateImageResponse = protos.google.cloud.vision.v1.IAnnotateImageResponse;
+
+// -------- Provider contract --------
+// One method per Vision feature used by the scan pipeline. Each resolves to the
+// (partial) annotate response for that feature, or `{}` when unsupported.
+export interface VisionProvider {
+  readonly name: string;
+  logoDetection(image: Buffer): Promise<AnnotateImageResponse>;
+  labelDetection(image: Buffer): Promise<AnnotateImageResponse>;
+  textDetection(image: Buffer): Promise<AnnotateImageResponse>;
+  webDetection(image: Buffer): Promise<AnnotateImageResponse>;
+  objectLocalization(image: Buffer): Promise<AnnotateImageResponse>;
+  imageProperties(image: Buffer): Promise<AnnotateImageResponse>;
+  getProjectId(): Promise<string | undefined>;
+}
+
+// The provider couldn't be reached or refused us (credentials, quota, outage)
+export class VisionUnavailableError extends AppError {
+  constructor(message = "Image analysis is temporarily unavailable") {
+    super("VISION_UNAVAILABLE", message);
+    this.name = "VisionUnavailableError";
+  }
+}
+
+export type VisionFeature = Exclude<keyof VisionProvider, "name" | "getProjectId">;
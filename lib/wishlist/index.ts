@@ -0,0 +1,139 @@
+// lib/wishlist/index.ts
+// Signed-in users' wishlists in the app database. Guests keep theirs in the
+// browser (lib/wishlist/local.ts) until they sign in and it's merged here.
+import { v4 as uuid } from "uuid";
+import { AppError } from "@/lib/api/errors";
+import { getDb } from "@/lib/db";
+import type { MatchItem } from "@/type/result";
+import type { Wishlist } from "@/type/wishlist";
+import { cleanCollectionName, productKey } from "./shared";
+
+export { EMPTY_WISHLIST, productKey } from "./shared";
+
+type ItemRow = { id: string; item: string; collection_id: string | null; added_at: number };
+type CollectionRow = { id: string; name: string; created_at: number };
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+// -------- Reading --------
+export function getWishlist(owner: string): Wishlist {
+  const db = getDb();
+  const items = db
+    .prepare("SELECT id, item, collection_id, added_at FROM wishlist_items WHERE owner = ? ORDER BY added_at DESC")
+    .all(owner) as ItemRow[];
+  const collections = db
+    .prepare("SELECT id, name, created_at FROM wishlist_collections WHERE owner = ? ORDER BY created_at")
+    .all(owner) as CollectionRow[];
+  return {
+    items: items.map((r) => ({
+      id: r.id,
+      item: JSON.parse(r.item),
+      collectionId: r.collection_id ?? undefined,
+      addedAt: iso(r.added_at),
+    })),
+    collections: collections.map((c) => ({ id: c.id, name: c.name, createdAt: iso(c.created_at) })),
+  };
+}
+
+// Collections are only usable by whoever created them
+function checkCollection(owner: string, collectionId?: string) {
+  if (!collectionId) return;
+  const found = getDb()
+    .prepare("SELECT 1 FROM wishlist_collections WHERE id = ? AND owner = ?")
+    .get(collectionId, owner);
+  if (!found) throw new AppError("NOT_FOUND", "That collection doesn't exist");
+}
+
+function findCollectionByName(owner: string, name: string): string | undefined {
+  const row = getDb()
+    .prepare("SELECT id FROM wishlist_collections WHERE owner = ? AND name = ?")
+    .get(owner, name) as { id: string } | undefined;
+  return row?.id;
+}
+
+// -------- Items --------
+// Saving a product that's already saved refreshes it (price may have changed)
+// and keeps its collection unless a new one is given
+export function saveWishlistItem(owner: string, item: MatchItem, collectionId?: string): void {
+  const id = productKey(item);
+  if (!id) throw new AppError("BAD_REQUEST", "That item has no id, url or title to save it by");
+  checkCollection(owner, collectionId);
+  getDb()
+    .prepare(
+      `INSERT INTO wishlist_items (owner, id, item, collection_id, added_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (owner, id) DO UPDATE SET
+         item = excluded.item,
+         collection_id = COALESCE(excluded.collection_id, collection_id)`
+    )
+    .run(owner, id, JSON.stringify(item), collectionId ?? null, Date.now());
+}
+
+export function removeWishlistItem(owner: string, id: string): boolean {
+  return getDb().prepare("DELETE FROM wishlist_items WHERE owner = ? AND id = ?").run(owner, id).changes > 0;
+}
+
+// No collection = unsorted
+export function moveWishlistItem(owner: string, id: string, collectionId?: string): boolean {
+  checkCollection(owner, collectionId);
+  return (
+    getDb()
+      .prepare("UPDATE wishlist_items SET collection_id = ? WHERE owner = ? AND id = ?")
+      .run(collectionId ?? null, owner, id).changes > 0
+  );
+}
+
+// -------- Collections --------
+export function createCollection(owner: string, name: string): string {
+  const clean = cleanCollectionName(name);
+  if (!clean) throw new AppError("BAD_REQUEST", "Give the collection a name");
+  if (findCollectionByName(owner, clean)) throw new AppError("BAD_REQUEST", `You already have a collection called "${clean}"`);
+  const id = uuid();
+  getDb()
+    .prepare("INSERT INTO wishlist_collections (id, owner, name, created_at) VALUES (?, ?, ?, ?)")
+    .run(id, owner, clean, Date.now());
+  return id;
+}
+
+export function renameCollection(owner: string, id: string, name: string): boolean {
+  const clean = cleanCollectionName(name);
+  if (!clean) throw new AppError("BAD_REQUEST", "Give the collection a name");
+  const taken = findCollectionByName(owner, clean);
+  if (taken && taken !== id) throw new AppError("BAD_REQUEST", `You already have a collection called "${clean}"`);
+  return (
+    getDb().prepare("UPDATE wishlist_collections SET name = ? WHERE id = ? AND owner = ?").run(clean, id, owner)
+      .changes > 0
+  );
+}
+
+// Its items stay saved, unsorted (ON DELETE SET NULL)
+export function deleteCollection(owner: string, id: string): boolean {
+  return getDb().prepare("DELETE FROM wishlist_collections WHERE id = ? AND owner = ?").run(id, owner).changes > 0;
+}
+
+// -------- Merging a guest wishlist --------
+// On sign-in the browser's wishlist is folded into the account's: collections
+// match by name (case-insensitive) or are created, items already saved keep
+// their collection unless they had none.
+export function mergeWishlist(owner: string, guest: Wishlist): void {
+  const db = getDb();
+  db.transaction(() => {
+    const ids = new Map<string, string>(); // guest collection id -> account collection id
+    for (const c of guest.collections) {
+      const name = cleanCollectionName(c.name);
+      if (!name) continue;
+      ids.set(c.id, findCollectionByName(owner, name) ?? createCollection(owner, name));
+    }
+
+    const insert = db.prepare(
+      `INSERT INTO wishlist_items (owner, id, item, collection_id, added_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (owner, id) DO UPDATE SET collection_id = COALESCE(collection_id, excluded.collection_id)`
+    );
+    for (const i of guest.items) {
+      const id = productKey(i.item);
+      if (!id) continue;
+      const addedAt = Date.parse(i.addedAt);
+      const collectionId = (i.collectionId && ids.get(i.collectionId)) || null;
+      insert.run(owner, id, JSON.stringify(i.item), collectionId, Number.isFinite(addedAt) ? addedAt : Date.now());
+    }
+  })();
+}
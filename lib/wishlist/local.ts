@@ -0,0 +1,38 @@
+// lib/wishlist/local.ts
+// A guest's wishlist, kept in localStorage until they sign in and it's merged
+// into their account
+import { WishlistSchema } from "@/lib/api/schema";
+import type { Wishlist } from "@/type/wishlist";
+import { EMPTY_WISHLIST } from "./shared";
+
+const STORAGE_KEY = "os_wishlist";
+
+// Missing, unreadable or malformed data all read as an empty wishlist
+export function readLocalWishlist(): Wishlist {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return EMPTY_WISHLIST;
+    const parsed = WishlistSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : EMPTY_WISHLIST;
+  } catch {
+    return EMPTY_WISHLIST;
+  }
+}
+
+export function writeLocalWishlist(w: Wishlist) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(w));
+  } catch (e) {
+    console.warn("[wishlist] couldn't save to localStorage:", e); // private mode, quota
+  }
+}
+
+export function clearLocalWishlist() {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // nothing to clear
+  }
+}
+
+export const isEmptyWishlist = (w: Wishlist) => !w.items.length && !w.collections.length;
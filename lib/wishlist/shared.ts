@@ -0,0 +1,54 @@
+// lib/wishlist/shared.ts
+// Wishlist rules shared by the browser copy (guests) and the database copy
+// (signed-in users). Plain functions over a Wishlist value; safe to import
+// from client components.
+import { v4 as uuid } from "uuid";
+import type { Wishlist, WishlistCollection, WishlistItem } from "@/type/wishlist";
+import type { MatchItem } from "@/type/result";
+
+export const MAX_COLLECTION_NAME = 60;
+
+export const EMPTY_WISHLIST: Wishlist = { items: [], collections: [] };
+
+// The same product found by two scans (or two garments) is one wishlist entry
+export const productKey = (m: MatchItem) => String(m.id ?? m.url ?? m.title ?? m.name ?? "");
+
+export const cleanCollectionName = (name: string) => name.replace(/\s+/g, " ").trim().slice(0, MAX_COLLECTION_NAME);
+
+// -------- Operations --------
+// Each returns a new wishlist; unknown ids are ignored
+export function addItem(w: Wishlist, item: MatchItem, collectionId?: string): Wishlist {
+  const id = productKey(item);
+  const existing = w.items.find((i) => i.id === id);
+  const entry: WishlistItem = existing
+    ? { ...existing, item, collectionId: collectionId ?? existing.collectionId }
+    : { id, item, collectionId, addedAt: new Date().toISOString() };
+  return { ...w, items: [entry, ...w.items.filter((i) => i.id !== id)] };
+}
+
+export const removeItem = (w: Wishlist, id: string): Wishlist => ({ ...w, items: w.items.filter((i) => i.id !== id) });
+
+export const moveItem = (w: Wishlist, id: string, collectionId?: string): Wishlist => ({
+  ...w,
+  items: w.items.map((i) => (i.id === id ? { ...i, collectionId } : i)),
+});
+
+// A name that's already taken returns the wishlist unchanged
+export function addCollection(w: Wishlist, name: string): Wishlist {
+  const clean = cleanCollectionName(name);
+  if (!clean || w.collections.some((c) => c.name.toLowerCase() === clean.toLowerCase())) return w;
+  const collection: WishlistCollection = { id: uuid(), name: clean, createdAt: new Date().toISOString() };
+  return { ...w, collections: [...w.collections, collection] };
+}
+
+export const renameCollection = (w: Wishlist, id: string, name: string): Wishlist => {
+  const clean = cleanCollectionName(name);
+  if (!clean || w.collections.some((c) => c.id !== id && c.name.toLowerCase() === clean.toLowerCase())) return w;
+  return { ...w, collections: w.collections.map((c) => (c.id === id ? { ...c, name: clean } : c)) };
+};
+
+// Its items stay saved, unsorted
+export const removeCollection = (w: Wishlist, id: string): Wishlist => ({
+  items: w.items.map((i) => (i.collectionId === id ? { ...i, collectionId: undefined } : i)),
+  collections: w.collections.filter((c) => c.id !== id),
+});
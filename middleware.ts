@@ -0,0 +1,35 @@
+// middleware.ts
+// Session handling for every request: verifies the session cookie's signature
+// and expiry and passes the session id to route handlers in a header (any
+// copy sent by the client is dropped first). Pages that need an account
+// redirect to /signin; a cookie that no longer verifies is cleared.
+import { NextResponse, type NextRequest } from "next/server";
+import { authSecret, SESSION_COOKIE, SESSION_HEADER, verifySession } from "@/lib/auth/token";
+
+const ACCOUNT_PAGES = ["/account"];
+
+export async function middleware(req: NextRequest) {
+  const headers = new Headers(req.headers);
+  headers.delete(SESSION_HEADER);
+
+  const cookie = req.cookies.get(SESSION_COOKIE)?.value;
+  const secret = authSecret();
+  const sessionId = cookie && secret ? await verifySession(cookie, secret) : undefined;
+  if (sessionId) headers.set(SESSION_HEADER, sessionId);
+
+  const { pathname, search } = req.nextUrl;
+  if (!sessionId && ACCOUNT_PAGES.some((p) => pathname === p || pathname.startsWith(`${p}/`))) {
+    const signin = new URL("/signin", req.url);
+    signin.searchParams.set("next", pathname + search);
+    return NextResponse.redirect(signin);
+  }
+
+  const res = NextResponse.next({ request: { headers } });
+  if (cookie && !sessionId) res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
+
+export const config = {
+  // Everything but build assets and static files
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|svg|webp|ico)$).*)"],
+};
@@ -9,6 +9,9 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // ffmpeg-installer resolves its platform binary at runtime and heic-convert
+  // loads libheif's wasm build from disk; keep both unbundled
+  serverExternalPackages: ["@ffmpeg-installer/ffmpeg", "heic-convert"],
 }
 
 export default nextConfig
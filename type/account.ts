@@ -0,0 +1,14 @@
+// A signed-in person. Scans, wishlists and preferences belong to them rather
+// than to a browser.
+export type User = {
+  id: string;
+  email: string;
+  createdAt: string; // ISO
+};
+
+// Who the user usually shops for. Applied to a search only where the image
+// didn't say (lib/preferences). Ids from the taxonomy's genders and ages.
+export type Preferences = {
+  gender?: string;
+  age?: string;
+};
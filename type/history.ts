@@ -0,0 +1,22 @@
+import type { FrameResult, GarmentResult } from "./result";
+
+// What was scanned: one image, frames picked from an uploaded video, or a TikTok link
+export type ScanSource = "image" | "frames" | "tiktok";
+
+// A past scan as stored, results included
+export type ScanRecord = {
+  id: string;
+  createdAt: string;  // ISO
+  updatedAt: string;  // ISO; later than createdAt once re-run
+  source: ScanSource;
+  tiktokUrl?: string;
+  thumbnail?: string; // small JPEG data URL
+  garments: GarmentResult[];
+  frames?: FrameResult[];
+};
+
+// One row of the history list
+export type ScanSummary = Pick<ScanRecord, "id" | "createdAt" | "updatedAt" | "source" | "tiktokUrl" | "thumbnail"> & {
+  labels: string[]; // garment categories (or Vision labels), for a one-line description
+  matches: number;
+};
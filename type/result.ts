@@ -7,4 +7,82 @@ export type MatchItem = {
   url?: string;
   image?: string;
   match?: number;
+  garment?: GarmentClass; // what kind of product this is; drives the results tabs
+  variant?: QueryVariant; // which planned query found it
+  source?: MatchSource;   // absent means "shopping"
+};
+
+// Shopping results are products; web detection adds pages showing the scanned
+// image itself and images that look like it (lib/scan/looks.ts)
+export type MatchSource = "shopping" | "page" | "similar-image";
+
+// How a shopping query was derived from the attributes (lib/scan/query.ts)
+export type QueryVariant = "strict" | "relaxed" | "no-color" | "no-brand" | "best-guess";
+
+// Where a product sits in the taxonomy (ids from data/taxonomy.json)
+export type GarmentClass = { department: string; category: string; subcategory?: string };
+
+export type ColorSwatch = { name: string; hex: string };
+
+export type ScoredValue = { value: string; confidence: number };
+
+// Ranked alternatives for each attribute, most confident first
+export type AttributeCandidates = {
+  brand: ScoredValue[];
+  category: ScoredValue[];
+  subcategory: ScoredValue[]; // within the chosen category
+  colors: ScoredValue[];
+  patterns: ScoredValue[];
+};
+
+// category/subcategory are taxonomy ids (data/taxonomy.json); department follows
+// from the category. gender/age are only set when something in the image says so.
+export type Attributes = {
+  brand?: string;
+  department?: string;
+  category?: string;
+  subcategory?: string;
+  gender?: string;
+  age?: string;
+  colors?: string[];
+  swatches?: ColorSwatch[]; // display colors for `colors`, same order
+  patterns?: string[];
+  texts?: string[];
+  bestGuess?: string; // what web matches suggest the item is, e.g. "nike club fleece hoodie"
+  confidence?: { brand?: number; category?: number }; // 0..1; cleared when the user edits
+  candidates?: AttributeCandidates;
+};
+
+// Whether a scan reused earlier work: "near-hit" means a near-duplicate
+// image's (re-saved, recompressed); "off" when caching is disabled
+export type CacheOutcome = "hit" | "near-hit" | "miss" | "off";
+export type CacheStatus = { analysis: CacheOutcome; search: CacheOutcome };
+
+// Normalized (0..1) box relative to the scanned image
+export type BoundingBox = { x: number; y: number; width: number; height: number };
+
+// One detected clothing item and the products found for it
+export type GarmentResult = {
+  id: string;
+  label: string;      // what Vision saw, e.g. "Pants"
+  box?: BoundingBox;  // absent when the whole image was scanned as one item
+  attributes: Attributes;
+  query: string;
+  matches: MatchItem[];
+  looks?: MatchItem[]; // where this look was found online (web detection)
+};
+
+// Scan results for one still taken from a video
+export type FrameResult = {
+  index: number;
+  time: number;       // seconds from the start of the video
+  image?: string;     // small JPEG data URL for display
+  garments: GarmentResult[];
+};
+
+// A frame sampled from an uploaded video, offered to the user before scanning
+export type FrameCandidate = {
+  index: number;
+  time: number;
+  image: string;      // JPEG data URL, full scan resolution
 };
@@ -0,0 +1,20 @@
+import type { MatchItem } from "./result";
+
+// A named group of saved items ("Summer fits")
+export type WishlistCollection = {
+  id: string;
+  name: string;
+  createdAt: string; // ISO
+};
+
+export type WishlistItem = {
+  id: string;            // the product's key (lib/wishlist/shared.ts), so the same product is saved once
+  item: MatchItem;
+  collectionId?: string; // unsorted when absent
+  addedAt: string;       // ISO
+};
+
+export type Wishlist = {
+  items: WishlistItem[];        // newest first
+  collections: WishlistCollection[];
+};